@@ -0,0 +1,113 @@
+import { browser } from '$app/environment';
+import { accounts } from './stores';
+import type { AccountProfile } from './stores';
+import type { AccountTokens, TokenStore } from './tokenStore';
+
+const ACCOUNTS_KEY = 'motify-accounts';
+const ACTIVE_ACCOUNT_KEY = 'motify-active-account';
+
+export interface StoredAccount extends AccountProfile {
+	// Null for server-backed sessions, whose tokens live in an httpOnly cookie
+	tokens: AccountTokens | null;
+}
+
+function toProfile({ userId, displayName, imageUrl }: StoredAccount): AccountProfile {
+	return { userId, displayName, imageUrl };
+}
+
+class AccountRegistry {
+	constructor() {
+		this.publish(this.read());
+	}
+
+	list(): AccountProfile[] {
+		return Object.values(this.read()).map(toProfile);
+	}
+
+	has(userId: string): boolean {
+		return !!this.read()[userId];
+	}
+
+	getTokens(userId: string): AccountTokens | null {
+		return this.read()[userId]?.tokens ?? null;
+	}
+
+	tokenStore(userId: string): TokenStore {
+		return {
+			load: () => this.getTokens(userId),
+			save: (tokens) => this.updateTokens(userId, tokens),
+			clear: () => this.remove(userId)
+		};
+	}
+
+	save(account: StoredAccount): void {
+		const registry = this.read();
+		registry[account.userId] = account;
+		this.write(registry);
+	}
+
+	updateTokens(userId: string, tokens: AccountTokens): void {
+		const registry = this.read();
+		if (!registry[userId]) return;
+
+		registry[userId] = { ...registry[userId], tokens };
+		this.write(registry);
+	}
+
+	updateProfile(profile: AccountProfile): void {
+		const registry = this.read();
+		if (!registry[profile.userId]) return;
+
+		registry[profile.userId] = { ...registry[profile.userId], ...profile };
+		this.write(registry);
+	}
+
+	remove(userId: string): void {
+		const registry = this.read();
+		delete registry[userId];
+		this.write(registry);
+
+		if (this.getLastActiveId() === userId) {
+			this.setLastActive(Object.keys(registry)[0] ?? null);
+		}
+	}
+
+	getLastActiveId(): string | null {
+		return browser ? localStorage.getItem(ACTIVE_ACCOUNT_KEY) : null;
+	}
+
+	setLastActive(userId: string | null): void {
+		if (!browser) return;
+
+		if (userId) {
+			localStorage.setItem(ACTIVE_ACCOUNT_KEY, userId);
+		} else {
+			localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+		}
+	}
+
+	private read(): Record<string, StoredAccount> {
+		if (!browser) return {};
+
+		try {
+			const stored = localStorage.getItem(ACCOUNTS_KEY);
+			return stored ? JSON.parse(stored) : {};
+		} catch (error) {
+			console.warn('Failed to read account registry:', error);
+			return {};
+		}
+	}
+
+	private write(registry: Record<string, StoredAccount>): void {
+		if (!browser) return;
+
+		localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(registry));
+		this.publish(registry);
+	}
+
+	private publish(registry: Record<string, StoredAccount>): void {
+		accounts.set(Object.values(registry).map(toProfile));
+	}
+}
+
+export const accountRegistry = new AccountRegistry();
@@ -0,0 +1,541 @@
+import { env } from '$env/dynamic/public';
+import { browser } from '$app/environment';
+import { accountRegistry } from './accountRegistry';
+import {
+	buildAuthorizeUrl,
+	fetchSpotifyProfile,
+	generateCodeChallenge,
+	generateRandomString
+} from './spotifyAuth';
+import {
+	LocalStorageTokenStore,
+	MemoryTokenStore,
+	REFRESH_MARGIN_MS,
+	TokenRequestRejectedError,
+	isExpiring,
+	requestToken,
+	toAccountTokens
+} from './tokenStore';
+import type { AccountTokens, TokenProvider, TokenResponse, TokenStore } from './tokenStore';
+import { authState, activeAccountId } from './stores';
+import type { AccountProfile, AuthState } from './stores';
+
+const CLIENT_ID = env.PUBLIC_SPOTIFY_CLIENT_ID || '';
+const getRedirectUri = (): string => {
+	if (browser) {
+		return `${window.location.origin}/callback`;
+	}
+	return env.PUBLIC_SPOTIFY_REDIRECT_URI || 'http://127.0.0.1:8181/callback';
+};
+
+// In server mode the refresh token stays in an httpOnly cookie and access tokens only live in memory
+const SERVER_SESSION = env.PUBLIC_SPOTIFY_AUTH_MODE === 'server';
+
+// Tabs share the session cookie, so they take turns asking the server to rotate its refresh token
+const SERVER_REFRESH_LOCK = 'motify-server-token-refresh';
+
+const CODE_VERIFIER_KEY = 'spotify_code_verifier';
+const AUTH_STATE_KEY = 'spotify_auth_state';
+
+export type AuthSessionEvent =
+	| { type: 'stateChange'; state: AuthState }
+	| { type: 'tokenRefreshed'; accessToken: string }
+	| { type: 'expired' }
+	| { type: 'loggedOut'; userId: string | null }
+	| { type: 'accountSwitched'; userId: string };
+
+type AuthSessionListener = (event: AuthSessionEvent) => void;
+
+// Lets another component (the leader tab) perform the refresh on this session's behalf,
+// given the token this session wants replaced
+type RefreshDelegate = (staleToken: string | null) => Promise<void>;
+
+function readStorage(key: string): string | null {
+	return browser ? localStorage.getItem(key) : null;
+}
+
+function writeStorage(key: string, value: string): void {
+	if (browser) {
+		localStorage.setItem(key, value);
+	}
+}
+
+function removeStorage(key: string): void {
+	if (browser) {
+		localStorage.removeItem(key);
+	}
+}
+
+// Sessions from before the account registry kept their tokens under these bare keys
+const legacyTokenStore = new LocalStorageTokenStore();
+
+class AuthSession implements TokenProvider {
+	private state: AuthState = 'anonymous';
+	private accountId: string | null = null;
+	private accessToken: string | null = null;
+	private refreshPromise: Promise<string> | null = null;
+	private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+	private listeners = new Set<AuthSessionListener>();
+	private refreshDelegate: RefreshDelegate | null = null;
+	private serverTokens = new MemoryTokenStore();
+
+	constructor() {
+		this.setAccountId(accountRegistry.getLastActiveId());
+		this.accessToken = this.readTokens()?.accessToken ?? null;
+		if (this.accessToken) {
+			this.setState('valid');
+			this.scheduleProactiveRefresh();
+		}
+	}
+
+	getState(): AuthState {
+		return this.state;
+	}
+
+	getAccountId(): string | null {
+		return this.accountId;
+	}
+
+	subscribe(listener: AuthSessionListener): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	async beginLogin(): Promise<string> {
+		if (SERVER_SESSION) {
+			const response = await fetch('/api/auth/login');
+			if (!response.ok) {
+				throw new Error(`Failed to start login: ${response.status}`);
+			}
+			const { url } = await response.json();
+			this.setState('authenticating');
+			return url;
+		}
+
+		const codeVerifier = generateRandomString();
+		const codeChallenge = await generateCodeChallenge(codeVerifier);
+		const oauthState = generateRandomString();
+
+		writeStorage(CODE_VERIFIER_KEY, codeVerifier);
+		writeStorage(AUTH_STATE_KEY, oauthState);
+		this.setState('authenticating');
+
+		return buildAuthorizeUrl({
+			clientId: CLIENT_ID,
+			redirectUri: getRedirectUri(),
+			codeChallenge,
+			state: oauthState
+		});
+	}
+
+	async completeLogin(code: string, returnedState: string | null): Promise<string> {
+		if (SERVER_SESSION) {
+			return this.completeServerLogin(code, returnedState);
+		}
+
+		const expectedState = readStorage(AUTH_STATE_KEY);
+		const codeVerifier = readStorage(CODE_VERIFIER_KEY);
+		removeStorage(AUTH_STATE_KEY);
+		removeStorage(CODE_VERIFIER_KEY);
+
+		if (!expectedState || returnedState !== expectedState) {
+			this.setState('anonymous');
+			throw new Error('Authorization state mismatch, please try logging in again');
+		}
+		if (!codeVerifier) {
+			this.setState('anonymous');
+			throw new Error('Code verifier not found');
+		}
+
+		this.setState('authenticating');
+
+		try {
+			const data = await requestToken({
+				grant_type: 'authorization_code',
+				code,
+				redirect_uri: getRedirectUri(),
+				client_id: CLIENT_ID,
+				code_verifier: codeVerifier
+			});
+			const profile = await fetchSpotifyProfile(data.access_token);
+			this.startAccountSession(profile, toAccountTokens(data, null));
+			return data.access_token;
+		} catch (error) {
+			this.setState(this.accessToken ? 'valid' : 'anonymous');
+			throw error;
+		}
+	}
+
+	identifyAccount(profile: AccountProfile): void {
+		if (this.accountId) {
+			accountRegistry.updateProfile(profile);
+			return;
+		}
+
+		// Sessions from before the account registry only become an account once we know the user
+		const tokens = this.readTokens();
+		if (!tokens) return;
+
+		accountRegistry.save({ ...profile, tokens });
+		accountRegistry.setLastActive(profile.userId);
+		this.setAccountId(profile.userId);
+		this.clearLegacyTokens();
+		console.log(`Moved existing session into account registry for ${profile.userId}`);
+	}
+
+	switchAccount(userId: string): void {
+		const tokens = accountRegistry.getTokens(userId);
+		// Server sessions keep their tokens in a cookie, the next request fetches them from /api/token
+		if (!tokens && !(SERVER_SESSION && accountRegistry.has(userId))) {
+			throw new Error(`No stored session for account ${userId}`);
+		}
+
+		this.cancelProactiveRefresh();
+		this.refreshPromise = null;
+		this.serverTokens.clear();
+		accountRegistry.setLastActive(userId);
+		this.setAccountId(userId);
+		this.accessToken = tokens?.accessToken ?? null;
+		if (this.accessToken) {
+			this.scheduleProactiveRefresh();
+			this.setState('valid');
+		}
+		this.emit({ type: 'accountSwitched', userId });
+		console.log(`Switched to account ${userId}`);
+	}
+
+	getAccessToken(): string | null {
+		return this.accessToken;
+	}
+
+	isTokenExpired(): boolean {
+		return isExpiring(this.readTokens());
+	}
+
+	async getValidToken(): Promise<string | null> {
+		this.syncFromStorage();
+		if (!this.accessToken && !(SERVER_SESSION && this.accountId)) {
+			return null;
+		}
+
+		if (!this.accessToken || this.refreshPromise || this.isTokenExpired()) {
+			try {
+				return await this.refresh();
+			} catch (error) {
+				console.error('Failed to refresh token:', error);
+				return this.state === 'expired' ? null : this.accessToken;
+			}
+		}
+
+		return this.accessToken;
+	}
+
+	async handleUnauthorized(rejectedToken: string): Promise<string | null> {
+		// Another request or tab may already have refreshed the token this one was sent with
+		this.syncFromStorage();
+		if (this.accessToken && this.accessToken !== rejectedToken) {
+			return this.accessToken;
+		}
+
+		try {
+			return await this.refresh();
+		} catch (error) {
+			console.error('Token refresh after 401 failed:', error);
+			return null;
+		}
+	}
+
+	refresh(): Promise<string> {
+		if (!this.refreshPromise) {
+			this.refreshPromise = this.performRefresh().finally(() => {
+				this.refreshPromise = null;
+			});
+		}
+		return this.refreshPromise;
+	}
+
+	setRefreshDelegate(delegate: RefreshDelegate | null): void {
+		this.refreshDelegate = delegate;
+	}
+
+	syncFromStorage(): void {
+		const storedToken = this.readTokens()?.accessToken;
+		if (!storedToken || storedToken === this.accessToken) return;
+
+		this.accessToken = storedToken;
+		this.scheduleProactiveRefresh();
+		if (this.state !== 'refreshing') {
+			this.setState('valid');
+		}
+	}
+
+	async logout(): Promise<void> {
+		// Other stored accounts stay signed in, the next page load picks one of them up
+		const userId = this.accountId;
+		if (SERVER_SESSION && userId) {
+			try {
+				await fetch(`/api/auth/logout?account=${encodeURIComponent(userId)}`, { method: 'POST' });
+			} catch (error) {
+				console.error('Failed to end server session:', error);
+			}
+		}
+		this.clearTokens();
+		this.setState('anonymous');
+		this.emit({ type: 'loggedOut', userId });
+	}
+
+	private async performRefresh(): Promise<string> {
+		const previousState = this.state;
+		this.setState('refreshing');
+
+		if (SERVER_SESSION) {
+			return this.refreshFromServer(previousState);
+		}
+
+		if (this.refreshDelegate) {
+			const staleToken = this.accessToken;
+			try {
+				await this.refreshDelegate(staleToken);
+				this.syncFromStorage();
+				if (this.accessToken && this.accessToken !== staleToken && !this.isTokenExpired()) {
+					this.setState('valid');
+					return this.accessToken;
+				}
+			} catch (error) {
+				console.warn('Token refresh was not handled by the leader tab, refreshing here:', error);
+			}
+		}
+
+		// Read after delegating, another tab may have rotated the refresh token meanwhile
+		const accountId = this.accountId;
+		const refreshToken = this.readTokens()?.refreshToken;
+		if (!refreshToken) {
+			this.expire();
+			throw new Error('No refresh token available');
+		}
+
+		console.log('Refreshing access token...');
+
+		try {
+			const data = await requestToken({
+				grant_type: 'refresh_token',
+				refresh_token: refreshToken,
+				client_id: CLIENT_ID
+			});
+			if (accountId !== this.accountId) {
+				// The user switched accounts meanwhile, keep the result for the account it belongs to
+				if (accountId) {
+					accountRegistry.updateTokens(accountId, toAccountTokens(data, refreshToken));
+				}
+				throw new Error('Account was switched while its token was refreshing');
+			}
+
+			this.storeTokens(data);
+			this.setState('valid');
+			this.emit({ type: 'tokenRefreshed', accessToken: data.access_token });
+			console.log('Access token refreshed successfully');
+			return data.access_token;
+		} catch (error) {
+			if (error instanceof TokenRequestRejectedError) {
+				this.expire();
+			} else {
+				// Network trouble should not cost the user their session
+				this.setState(previousState);
+			}
+			throw error;
+		}
+	}
+
+	private async completeServerLogin(code: string, returnedState: string | null): Promise<string> {
+		this.setState('authenticating');
+
+		try {
+			const response = await fetch('/api/auth/callback', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ code, state: returnedState })
+			});
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || `Login failed: ${response.status}`);
+			}
+
+			this.startAccountSession(data.profile, {
+				accessToken: data.accessToken,
+				refreshToken: null,
+				expiresAt: data.expiresAt
+			});
+			return data.accessToken;
+		} catch (error) {
+			this.setState(this.accessToken ? 'valid' : 'anonymous');
+			throw error;
+		}
+	}
+
+	private async refreshFromServer(previousState: AuthState): Promise<string> {
+		const accountId = this.accountId;
+		if (!accountId) {
+			this.expire();
+			throw new Error('No account to refresh');
+		}
+
+		console.log('Fetching access token from server session...');
+		const staleToken = this.accessToken;
+		const hadToken = !!staleToken;
+
+		try {
+			// A token we already hold is expiring or was rejected, so ask the server for a fresh one.
+			// The server only refreshes when that token is still the cookie's, so a tab that waited
+			// for another one's refresh gets the new token instead of rotating it again
+			const response = await this.withServerRefreshLock(accountId, () =>
+				fetch(`/api/token?account=${encodeURIComponent(accountId)}`, {
+					method: hadToken ? 'POST' : 'GET',
+					...(hadToken
+						? {
+								headers: { 'Content-Type': 'application/json' },
+								body: JSON.stringify({ staleToken })
+							}
+						: {})
+				})
+			);
+			if (response.status === 401) {
+				throw new TokenRequestRejectedError('Server session has ended');
+			}
+			if (!response.ok) {
+				throw new Error(`Token request failed: ${response.status}`);
+			}
+
+			const { accessToken, expiresAt } = await response.json();
+			if (accountId !== this.accountId) {
+				throw new Error('Account was switched while its token was refreshing');
+			}
+
+			this.serverTokens.save({ accessToken, refreshToken: null, expiresAt });
+			this.accessToken = accessToken;
+			this.scheduleProactiveRefresh();
+			this.setState('valid');
+			// The first token of a page load is not a refresh, the app is still starting up
+			if (hadToken) {
+				this.emit({ type: 'tokenRefreshed', accessToken });
+			}
+			return accessToken;
+		} catch (error) {
+			if (error instanceof TokenRequestRejectedError) {
+				this.expire();
+			} else {
+				this.setState(previousState);
+			}
+			throw error;
+		}
+	}
+
+	private withServerRefreshLock<T>(accountId: string, task: () => Promise<T>): Promise<T> {
+		if (typeof navigator === 'undefined' || !navigator.locks) {
+			return task();
+		}
+		return navigator.locks.request(`${SERVER_REFRESH_LOCK}:${accountId}`, task) as Promise<T>;
+	}
+
+	private startAccountSession(profile: AccountProfile, tokens: AccountTokens): void {
+		// Server sessions never put tokens in localStorage, not even inside the account registry
+		accountRegistry.save({ ...profile, tokens: SERVER_SESSION ? null : tokens });
+		accountRegistry.setLastActive(profile.userId);
+		this.setAccountId(profile.userId);
+		this.clearLegacyTokens();
+		if (SERVER_SESSION) {
+			this.serverTokens.save(tokens);
+		}
+		this.accessToken = tokens.accessToken;
+		this.scheduleProactiveRefresh();
+		this.setState('valid');
+	}
+
+	private tokenStore(): TokenStore {
+		if (SERVER_SESSION) return this.serverTokens;
+
+		return this.accountId ? accountRegistry.tokenStore(this.accountId) : legacyTokenStore;
+	}
+
+	private readTokens(): AccountTokens | null {
+		return this.tokenStore().load();
+	}
+
+	private storeTokens(data: TokenResponse): void {
+		const tokens = toAccountTokens(data, this.readTokens()?.refreshToken ?? null);
+		this.accessToken = tokens.accessToken;
+		this.tokenStore().save(tokens);
+		this.scheduleProactiveRefresh();
+	}
+
+	private clearTokens(): void {
+		this.accessToken = null;
+		this.serverTokens.clear();
+		this.cancelProactiveRefresh();
+		if (this.accountId) {
+			accountRegistry.remove(this.accountId);
+			this.setAccountId(null);
+		}
+		this.clearLegacyTokens();
+		removeStorage(CODE_VERIFIER_KEY);
+		removeStorage(AUTH_STATE_KEY);
+	}
+
+	private clearLegacyTokens(): void {
+		legacyTokenStore.clear();
+	}
+
+	private setAccountId(userId: string | null): void {
+		this.accountId = userId;
+		activeAccountId.set(userId);
+	}
+
+	private expire(): void {
+		console.warn('Spotify session expired, a new login is required');
+		this.clearTokens();
+		this.setState('expired');
+		this.emit({ type: 'expired' });
+	}
+
+	private scheduleProactiveRefresh(): void {
+		if (!browser) return;
+
+		this.cancelProactiveRefresh();
+		const tokens = this.readTokens();
+		if (!tokens?.expiresAt || (!tokens.refreshToken && !SERVER_SESSION)) return;
+
+		const delay = Math.max(0, tokens.expiresAt - REFRESH_MARGIN_MS - Date.now());
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = null;
+			this.refresh().catch((error) => {
+				console.error('Proactive token refresh failed:', error);
+			});
+		}, delay);
+	}
+
+	private cancelProactiveRefresh(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+	}
+
+	private setState(state: AuthState): void {
+		if (this.state === state) return;
+
+		this.state = state;
+		authState.set(state);
+		this.emit({ type: 'stateChange', state });
+	}
+
+	private emit(event: AuthSessionEvent): void {
+		for (const listener of this.listeners) {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error('Auth session listener failed:', error);
+			}
+		}
+	}
+}
+
+export const authSession = new AuthSession();
@@ -0,0 +1,55 @@
+const DB_NAME = 'motify-cache';
+const DB_VERSION = 4;
+
+export const PLAYLIST_STORE = 'playlistTracks';
+export const SAVED_TRACKS_STORE = 'savedTracks';
+export const OUTBOX_STORE = 'mutationOutbox';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+// Resolves to null when IndexedDB is unavailable, callers then run without a cache
+export function openCacheDatabase(): Promise<IDBDatabase | null> {
+	if (dbPromise) {
+		return dbPromise;
+	}
+
+	if (typeof indexedDB === 'undefined') {
+		dbPromise = Promise.resolve(null);
+		return dbPromise;
+	}
+
+	dbPromise = new Promise((resolve) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+		request.onupgradeneeded = (event) => {
+			const db = request.result;
+			// Version 1 entries lack playlist item metadata, so start those over
+			if (event.oldVersion < 2 && db.objectStoreNames.contains(PLAYLIST_STORE)) {
+				db.deleteObjectStore(PLAYLIST_STORE);
+			}
+			if (!db.objectStoreNames.contains(PLAYLIST_STORE)) {
+				db.createObjectStore(PLAYLIST_STORE, { keyPath: 'playlistId' });
+			}
+			if (!db.objectStoreNames.contains(SAVED_TRACKS_STORE)) {
+				db.createObjectStore(SAVED_TRACKS_STORE, { keyPath: 'accountId' });
+			}
+			if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+				db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => {
+			console.warn('Failed to open cache database, continuing without it:', request.error);
+			resolve(null);
+		};
+	});
+
+	return dbPromise;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateGroups } from './duplicates';
+import type { SpotifyTrack } from './spotify';
+
+let nextPosition = 0;
+
+function track(id: string, extra: Partial<SpotifyTrack> = {}): SpotifyTrack {
+	return {
+		id,
+		name: `Song ${id}`,
+		artists: [{ name: 'Artist' }],
+		album: { name: 'Album', images: [] },
+		duration_ms: 180000,
+		uri: `spotify:track:${id}`,
+		_position: nextPosition++,
+		...extra
+	};
+}
+
+describe('findDuplicateGroups', () => {
+	it('groups repeats of the same track and keeps the earliest added', () => {
+		const later = track('a', { _addedAt: '2024-02-01T00:00:00Z' });
+		const earlier = track('a', { _addedAt: '2024-01-01T00:00:00Z' });
+
+		const [group] = findDuplicateGroups([later, track('b'), earlier]);
+
+		expect(group.keep).toBe(earlier);
+		expect(group.extras).toEqual([{ track: later, reason: 'exact' }]);
+	});
+
+	it('falls back to playlist position when added dates tie', () => {
+		const first = track('a');
+		const second = track('a');
+
+		const [group] = findDuplicateGroups([second, first]);
+
+		expect(group.keep).toBe(first);
+	});
+
+	it('matches a relinked copy by the URI it was relinked from', () => {
+		const original = track('a', { _addedAt: '2024-01-01T00:00:00Z' });
+		const copy = track('b', {
+			_addedAt: '2024-02-01T00:00:00Z',
+			linked_from: { id: 'a', uri: 'spotify:track:a', external_urls: { spotify: '' } }
+		});
+
+		const [group] = findDuplicateGroups([original, copy]);
+
+		expect(group.extras).toEqual([{ track: copy, reason: 'relinked' }]);
+	});
+
+	it('matches releases of the same song by title, artist and a close duration', () => {
+		const single = track('a', { name: 'Song', duration_ms: 200000 });
+		const remaster = track('b', { name: 'Song - 2011 Remaster', duration_ms: 201500 });
+		const featuring = track('c', { name: 'Song (feat. Someone)', duration_ms: 202000 });
+
+		const [group] = findDuplicateGroups([single, remaster, featuring]);
+
+		expect(group.keep).toBe(single);
+		expect(group.extras.map((row) => row.reason)).toEqual(['same-song', 'same-song']);
+	});
+
+	it('keeps versions whose lengths are far apart', () => {
+		const radio = track('a', { name: 'Song', duration_ms: 200000 });
+		const extended = track('b', { name: 'Song', duration_ms: 420000 });
+
+		expect(findDuplicateGroups([radio, extended])).toEqual([]);
+	});
+
+	it('ignores local files and episodes', () => {
+		const local = track('x', { is_local: true });
+
+		expect(findDuplicateGroups([local, { ...local }])).toEqual([]);
+	});
+});
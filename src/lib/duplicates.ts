@@ -0,0 +1,120 @@
+import { getOperationalUri } from './spotify';
+import type { SpotifyTrack } from './spotify';
+import { isReadOnlyTrack } from './utils';
+
+// Single and album releases of the same recording often differ by a second or two
+const DURATION_TOLERANCE_MS = 3000;
+
+// How an extra row matches the copy being kept, from most to least certain
+export type DuplicateReason = 'exact' | 'relinked' | 'same-song';
+
+export interface DuplicateRow {
+	track: SpotifyTrack;
+	reason: DuplicateReason;
+}
+
+export interface DuplicateGroup {
+	keep: SpotifyTrack;
+	extras: DuplicateRow[];
+}
+
+// Drops featured artists, remaster and version notes so "Song - 2011 Remaster" matches "Song"
+function normalizeTitle(title: string): string {
+	return title
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/\s[-–]\s.*(remaster|version|mono|stereo|edit|single|album).*$/, '')
+		.replace(/[([][^)\]]*(feat\.?|ft\.|with |remaster|version|single|album)[^)\]]*[)\]]/g, '')
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim();
+}
+
+function sameSongKey(track: SpotifyTrack): string | null {
+	const title = normalizeTitle(track.name);
+	const artist = track.artists[0]?.name;
+	if (!title || !artist) return null;
+
+	return `${title}|${normalizeTitle(artist)}`;
+}
+
+function earliestAdded(a: SpotifyTrack, b: SpotifyTrack): number {
+	const aTime = a._addedAt ? Date.parse(a._addedAt) : Number.POSITIVE_INFINITY;
+	const bTime = b._addedAt ? Date.parse(b._addedAt) : Number.POSITIVE_INFINITY;
+	if (aTime !== bTime) {
+		return aTime - bTime;
+	}
+	return (a._position ?? 0) - (b._position ?? 0);
+}
+
+function matchReason(keep: SpotifyTrack, extra: SpotifyTrack): DuplicateReason {
+	if (extra.id === keep.id) return 'exact';
+	if (getOperationalUri(extra) === getOperationalUri(keep)) return 'relinked';
+	return 'same-song';
+}
+
+// Rows end up in one group when any chain of id, operational URI or title/artist/duration matches links them
+export function findDuplicateGroups(tracks: SpotifyTrack[]): DuplicateGroup[] {
+	const rows = tracks.filter((track) => !isReadOnlyTrack(track));
+	const parent = rows.map((_, index) => index);
+
+	const find = (index: number): number => {
+		while (parent[index] !== index) {
+			parent[index] = parent[parent[index]];
+			index = parent[index];
+		}
+		return index;
+	};
+	const union = (a: number, b: number) => {
+		parent[find(a)] = find(b);
+	};
+
+	const firstByKey = new Map<string, number>();
+	const linkByKey = (key: string, index: number) => {
+		const first = firstByKey.get(key);
+		if (first === undefined) {
+			firstByKey.set(key, index);
+		} else {
+			union(first, index);
+		}
+	};
+
+	const bySong = new Map<string, number[]>();
+	rows.forEach((track, index) => {
+		linkByKey(`id:${track.id}`, index);
+		linkByKey(`uri:${getOperationalUri(track)}`, index);
+
+		const songKey = sameSongKey(track);
+		if (songKey) {
+			bySong.set(songKey, [...(bySong.get(songKey) ?? []), index]);
+		}
+	});
+
+	// Within a title and artist, neighbours by duration count as the same song while they stay close
+	bySong.forEach((indexes) => {
+		const byDuration = [...indexes].sort((a, b) => rows[a].duration_ms - rows[b].duration_ms);
+		for (let i = 1; i < byDuration.length; i++) {
+			const gap = rows[byDuration[i]].duration_ms - rows[byDuration[i - 1]].duration_ms;
+			if (gap <= DURATION_TOLERANCE_MS) {
+				union(byDuration[i - 1], byDuration[i]);
+			}
+		}
+	});
+
+	const members = new Map<number, SpotifyTrack[]>();
+	rows.forEach((track, index) => {
+		const root = find(index);
+		members.set(root, [...(members.get(root) ?? []), track]);
+	});
+
+	return [...members.values()]
+		.filter((group) => group.length > 1)
+		.map((group) => {
+			const [keep, ...extras] = [...group].sort(earliestAdded);
+			return {
+				keep,
+				extras: extras.map((track) => ({ track, reason: matchReason(keep, track) }))
+			};
+		})
+		.sort((a, b) => (a.keep._position ?? 0) - (b.keep._position ?? 0));
+}
@@ -0,0 +1,130 @@
+import type { SpotifyTrack } from './spotify';
+import { toastStore } from './toast';
+import { getSpotifyErrorMessage } from './spotifyErrors';
+
+const MAX_HISTORY = 50;
+
+// What happened, with enough detail to put it back: the row's index in the list and its position in the playlist
+export type MutationCommand =
+	| {
+			type: 'remove';
+			track: SpotifyTrack;
+			playlistId: string;
+			index: number;
+			position?: number;
+			snapshotId: string | null;
+	  }
+	| {
+			type: 'move';
+			track: SpotifyTrack;
+			fromPlaylistId: string;
+			toPlaylistId: string;
+			index: number;
+			position?: number;
+			snapshotId: string | null;
+			// False when the track was already in the destination, so undo must not take it out
+			addedToDestination: boolean;
+	  }
+	| { type: 'playlist-toggle'; track: SpotifyTrack; playlistId: string; added: boolean }
+	| { type: 'library-toggle'; track: SpotifyTrack; saved: boolean }
+	// Rows keep the positions they had before removal, so undo can put each one back in place.
+	// Undo fills in the snapshot those positions hold for, which redo checks before removing again,
+	// and the rows still missing when it only partly succeeded
+	| {
+			type: 'bulk-remove';
+			tracks: SpotifyTrack[];
+			playlistId: string;
+			snapshotId?: string | null;
+			pendingTracks?: SpotifyTrack[];
+	  };
+
+export interface HistoryEntry {
+	command: MutationCommand;
+	label: string;
+	undo: () => Promise<void>;
+	redo: () => Promise<void>;
+}
+
+class HistoryService {
+	private undoStack: HistoryEntry[] = [];
+	private redoStack: HistoryEntry[] = [];
+	private isApplying = false;
+
+	record(entry: HistoryEntry): void {
+		this.undoStack = [...this.undoStack, entry].slice(-MAX_HISTORY);
+		this.redoStack = [];
+		console.log(`Recorded history entry: ${entry.label}`);
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	// Undo buttons on toasts pass their entry, which only works while nothing newer has been recorded
+	async undo(entry?: HistoryEntry): Promise<void> {
+		const latest = this.undoStack[this.undoStack.length - 1];
+		if (!latest || this.isApplying) return;
+
+		if (entry && entry !== latest) {
+			toastStore.add({
+				message:
+					'Only the most recent change can be undone from here, use Ctrl+Z to step back further',
+				type: 'info'
+			});
+			return;
+		}
+
+		this.undoStack = this.undoStack.slice(0, -1);
+		if (await this.apply(latest, 'undo')) {
+			this.redoStack = [...this.redoStack, latest];
+		} else {
+			this.undoStack = [...this.undoStack, latest];
+		}
+	}
+
+	async redo(): Promise<void> {
+		const latest = this.redoStack[this.redoStack.length - 1];
+		if (!latest || this.isApplying) return;
+
+		this.redoStack = this.redoStack.slice(0, -1);
+		if (await this.apply(latest, 'redo')) {
+			this.undoStack = [...this.undoStack, latest];
+		} else {
+			this.redoStack = [...this.redoStack, latest];
+		}
+	}
+
+	private async apply(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<boolean> {
+		this.isApplying = true;
+		console.log(`${direction === 'undo' ? 'Undoing' : 'Redoing'}: ${entry.label}`);
+
+		try {
+			await (direction === 'undo' ? entry.undo() : entry.redo());
+			toastStore.add({
+				message: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${entry.label}`,
+				type: 'success'
+			});
+			return true;
+		} catch (error) {
+			console.error(`Failed to ${direction} "${entry.label}":`, error);
+			toastStore.add({
+				message: `Failed to ${direction} "${entry.label}": ${getSpotifyErrorMessage(error)}`,
+				type: 'error'
+			});
+			return false;
+		} finally {
+			this.isApplying = false;
+		}
+	}
+
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+}
+
+export const historyService = new HistoryService();
@@ -1,9 +1,30 @@
 import { spotifyAPI } from './spotify';
+import { authSession } from './authSession';
 import { webPlaybackService } from './webPlayback';
 import { tokenManager } from './tokenManager';
+import { tabCoordinator } from './tabCoordinator';
 import { libraryService } from './libraryService';
 import { targetPlaylistService } from './targetPlaylistService';
-import { isAuthenticated, user, playlists, selectedPlaylist, targetPlaylist, playlistSelections } from './stores';
+import { historyService } from './historyService';
+import { mutationOutbox } from './mutationOutbox';
+import { playlistService } from './playlistService';
+import { clearTrackPlayabilityCache } from './utils';
+import {
+    isAuthenticated,
+    user,
+    playlists,
+    selectedPlaylist,
+    targetPlaylist,
+    playlistSelections,
+    currentTracks,
+    originalTrackOrder,
+    currentTrack,
+    currentTrackIndex,
+    currentPlaylistSnapshot,
+    isPlaying,
+    isShuffleOn,
+    trackSortOrder
+} from './stores';
 import type { SpotifyPlaylist } from './spotify';
 
 class InitializationService {
@@ -39,8 +60,9 @@ class InitializationService {
 
         try {
             tokenManager.initialize();
+            await tabCoordinator.start();
 
-            const token = await spotifyAPI.ensureValidToken();
+            const token = await authSession.getValidToken();
             if (!token) {
                 console.log('No valid token available, user needs to authenticate');
                 isAuthenticated.set(false);
@@ -58,6 +80,11 @@ class InitializationService {
                 console.error('Failed to load user data:', error);
             }
 
+            if (!tabCoordinator.isLeader()) {
+                console.log('Another tab owns the Web Player, skipping Web Playback SDK setup');
+                return true;
+            }
+
             try {
                 console.log('Initializing Web Playback SDK...');
                 await webPlaybackService.initialize();
@@ -79,9 +106,17 @@ class InitializationService {
         try {
             const userInfo = await spotifyAPI.getCurrentUser();
             user.set(userInfo);
+            authSession.identifyAccount({
+                userId: userInfo.id,
+                displayName: userInfo.display_name || userInfo.id,
+                imageUrl: userInfo.images?.[0]?.url ?? null
+            });
 
-            const playlistsData = await spotifyAPI.getUserPlaylists();
-            playlists.set(playlistsData);
+            // Changes left over from an earlier session or another account go out once we know who is signed in
+            mutationOutbox.start();
+            mutationOutbox.replay();
+
+            const playlistsData = await playlistService.loadPlaylists();
 
             await this.restorePlaylistSelections(playlistsData);
 
@@ -130,10 +165,9 @@ class InitializationService {
         }
     }
 
-    async handleAuthentication(accessToken: string): Promise<void> {
+    async handleAuthentication(): Promise<void> {
         console.log('Handling authentication with new token');
         
-        spotifyAPI.setAccessToken(accessToken);
         isAuthenticated.set(true);
 
         try {
@@ -144,7 +178,9 @@ class InitializationService {
             console.error('Failed to load user data after authentication:', error);
         }
 
-        if (!this.isWebPlaybackReady()) {
+        await tabCoordinator.start();
+
+        if (tabCoordinator.isLeader() && !webPlaybackService.hasPlayer()) {
             try {
                 console.log('Initializing Web Playback SDK after authentication');
                 await webPlaybackService.initialize();
@@ -157,6 +193,48 @@ class InitializationService {
         this.isInitialized = true;
     }
 
+    async switchAccount(userId: string): Promise<void> {
+        if (userId === authSession.getAccountId()) return;
+
+        console.log(`Switching to account ${userId}...`);
+        webPlaybackService.disconnect();
+        this.clearAccountState();
+
+        authSession.switchAccount(userId);
+        isAuthenticated.set(true);
+
+        await this.loadUserDataAndPlaylists();
+
+        if (tabCoordinator.isLeader()) {
+            try {
+                await webPlaybackService.initialize();
+                console.log('Web Playback SDK ready for switched account');
+            } catch (error) {
+                console.error('Failed to initialize Web Playback SDK after switching account:', error);
+            }
+        }
+    }
+
+    private clearAccountState(): void {
+        user.set(null);
+        playlists.set([]);
+        selectedPlaylist.set(null);
+        targetPlaylist.set(null);
+        currentTracks.set([]);
+        originalTrackOrder.set([]);
+        currentTrack.set(null);
+        currentTrackIndex.set(-1);
+        currentPlaylistSnapshot.set(null);
+        isPlaying.set(false);
+        isShuffleOn.set(false);
+        trackSortOrder.set('playlist');
+        libraryService.clearLibrary();
+        targetPlaylistService.clearTargetPlaylist();
+        targetPlaylistService.clearSlots();
+        historyService.clear();
+        clearTrackPlayabilityCache();
+    }
+
     isWebPlaybackReady(): boolean {
         return !!webPlaybackService.getDeviceId();
     }
@@ -177,6 +255,8 @@ class InitializationService {
         targetPlaylist.set(null);
         libraryService.clearLibrary();
         targetPlaylistService.clearTargetPlaylist();
+        targetPlaylistService.clearSlots();
+        historyService.clear();
         
         console.log('Initialization service reset');
     }
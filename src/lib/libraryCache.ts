@@ -0,0 +1,52 @@
+import { SAVED_TRACKS_STORE, openCacheDatabase, promisifyRequest } from './cacheDatabase';
+import type { SavedTrackEntry } from './spotify';
+
+export interface CachedLibrary {
+	accountId: string;
+	entries: SavedTrackEntry[];
+	// Newest added_at seen from Spotify, later syncs only fetch saves from this point on
+	highWaterMark: string | null;
+	syncedAt: number;
+}
+
+class LibraryCache {
+	async get(accountId: string): Promise<CachedLibrary | null> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return null;
+
+			const store = db.transaction(SAVED_TRACKS_STORE, 'readonly').objectStore(SAVED_TRACKS_STORE);
+			const entry = await promisifyRequest<CachedLibrary | undefined>(store.get(accountId));
+			return entry || null;
+		} catch (error) {
+			console.warn(`Failed to read saved tracks for ${accountId} from cache:`, error);
+			return null;
+		}
+	}
+
+	async put(entry: CachedLibrary): Promise<void> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return;
+
+			const store = db.transaction(SAVED_TRACKS_STORE, 'readwrite').objectStore(SAVED_TRACKS_STORE);
+			await promisifyRequest(store.put(entry));
+		} catch (error) {
+			console.warn(`Failed to write saved tracks for ${entry.accountId} to cache:`, error);
+		}
+	}
+
+	async delete(accountId: string): Promise<void> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return;
+
+			const store = db.transaction(SAVED_TRACKS_STORE, 'readwrite').objectStore(SAVED_TRACKS_STORE);
+			await promisifyRequest(store.delete(accountId));
+		} catch (error) {
+			console.warn(`Failed to delete saved tracks for ${accountId} from cache:`, error);
+		}
+	}
+}
+
+export const libraryCache = new LibraryCache();
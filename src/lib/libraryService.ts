@@ -1,11 +1,86 @@
-import { spotifyAPI } from './spotify';
-import { userLibrary, isLibraryLoading } from './stores';
+import { spotifyAPI, LIKED_SONGS_ID } from './spotify';
+import type { SavedTrackEntry, SpotifyTrack } from './spotify';
+import { tabCoordinator } from './tabCoordinator';
+import { libraryCache } from './libraryCache';
+import { mutationOutbox } from './mutationOutbox';
+import { targetPlaylistService } from './targetPlaylistService';
+import { isReadOnlyTrack } from './utils';
+import { userLibrary, isLibraryLoading, user, librarySettings, libraryBulkProgress } from './stores';
+import type { LibraryMode } from './stores';
 import { get } from 'svelte/store';
 
+const SPOT_CHECK_BATCH_SIZE = 50;
+// Past this many /me/tracks/contains calls a full reload is just as cheap
+const MAX_SPOT_CHECK_BATCHES = 10;
+const MEMBERSHIP_TTL_MS = 10 * 60 * 1000;
+// Collects rows scrolling into view so they share /me/tracks/contains requests
+const MEMBERSHIP_FLUSH_DELAY_MS = 50;
+// /me/tracks accepts at most 50 IDs per save or removal
+const LIBRARY_WRITE_BATCH_SIZE = 50;
+
+// 'like-missing' skips tracks already known to be liked, 'like' re-saves everything without looking first
+export type BulkLibraryAction = 'like' | 'unlike' | 'like-missing';
+
+export interface BulkLibraryResult {
+	changed: number;
+	failed: number;
+}
+
+interface MembershipEntry {
+	saved: boolean;
+	checkedAt: number;
+}
+
+function toLibrarySet(entries: SavedTrackEntry[]): Set<string> {
+	const ids = new Set<string>();
+	entries.forEach(entry => {
+		ids.add(entry.id);
+		if (entry.linkedFromId) ids.add(entry.linkedFromId);
+	});
+	return ids;
+}
+
+function newestAddedAt(entries: SavedTrackEntry[]): string | null {
+	return entries.reduce<string | null>((newest, entry) =>
+		!newest || entry.addedAt > newest ? entry.addedAt : newest, null);
+}
+
 class LibraryService {
 	private loadingPromise: Promise<void> | null = null;
+	private accountId: string | null = null;
+	// Account whose load or sync ran to the end, restoring the cache alone does not count
+	private loadedAccountId: string | null = null;
+	private entries: SavedTrackEntry[] = [];
+	private highWaterMark: string | null = null;
+	private membership = new Map<string, MembershipEntry>();
+	private queuedIds = new Set<string>();
+	private inFlightIds = new Set<string>();
+	private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+	isLazy(): boolean {
+		return get(librarySettings).mode === 'lazy';
+	}
+
+	// Preload mode can only say a track is not liked once the whole library is in
+	hasLoadedLibrary(): boolean {
+		return this.isLazy() || (this.loadedAccountId !== null && this.loadedAccountId === get(user)?.id);
+	}
+
+	async setLibraryMode(mode: LibraryMode): Promise<void> {
+		if (get(librarySettings).mode === mode) return;
+
+		console.log(`Switching library mode to ${mode}`);
+		librarySettings.update(settings => ({ ...settings, mode }));
+		this.clearLibrary();
+		await this.loadUserLibrary();
+	}
 
 	async loadUserLibrary(): Promise<void> {
+		if (this.isLazy()) {
+			console.log('Library is in lazy mode, saved state is checked per visible track');
+			return;
+		}
+
 		if (this.loadingPromise) {
 			return this.loadingPromise;
 		}
@@ -15,27 +90,214 @@ class LibraryService {
 	}
 
 	private async performLoad(): Promise<void> {
+		const accountId = get(user)?.id ?? null;
+
 		try {
-			isLibraryLoading.set(true);
-			console.log('Loading user library...');
-			const trackIds = await spotifyAPI.getUserSavedTracks();
-			userLibrary.set(new Set(trackIds));
-			console.log(`User library loaded with ${trackIds.length} tracks`);
+			const cached = accountId ? await libraryCache.get(accountId) : null;
+
+			if (cached?.highWaterMark) {
+				console.log(`Restored ${cached.entries.length} saved tracks from cache, syncing changes...`);
+				this.apply(accountId, cached.entries, cached.highWaterMark);
+				await this.syncIncrementally(accountId);
+			} else {
+				await this.loadFullLibrary(accountId);
+			}
+			this.loadedAccountId = accountId;
 		} catch (error) {
 			console.error('Failed to load user library:', error);
-			userLibrary.set(new Set());
+			if (!this.entries.length) {
+				userLibrary.set(new Set());
+			}
 		} finally {
 			isLibraryLoading.set(false);
 			this.loadingPromise = null;
 		}
 	}
 
+	private async loadFullLibrary(accountId: string | null): Promise<void> {
+		isLibraryLoading.set(true);
+		console.log('Loading full user library...');
+
+		const entries = await spotifyAPI.getSavedTracks();
+		if (get(user)?.id !== accountId) return;
+
+		this.apply(accountId, entries, newestAddedAt(entries));
+		await this.persist();
+		console.log(`User library loaded with ${entries.length} tracks`);
+	}
+
+	private async syncIncrementally(accountId: string | null): Promise<void> {
+		const knownIds = toLibrarySet(this.entries);
+		const highWaterMark = this.highWaterMark!;
+		const newEntries: SavedTrackEntry[] = [];
+		let serverTotal = 0;
+
+		for await (const page of spotifyAPI.streamSavedTracks()) {
+			serverTotal = page.total;
+			const olderIndex = page.entries.findIndex(entry => entry.addedAt < highWaterMark);
+			const fresh = olderIndex === -1 ? page.entries : page.entries.slice(0, olderIndex);
+
+			newEntries.push(...fresh.filter(entry =>
+				!knownIds.has(entry.id) && !(entry.linkedFromId && knownIds.has(entry.linkedFromId))
+			));
+			if (olderIndex !== -1) break;
+		}
+
+		let entries = [...newEntries, ...this.entries];
+		if (serverTotal < entries.length) {
+			// Saves only grow the total, so the difference is exactly the number of removals to find
+			entries = await this.findRemovals(entries, newEntries.length, entries.length - serverTotal) ?? [];
+		}
+
+		if (get(user)?.id !== accountId) return;
+
+		if (entries.length !== serverTotal) {
+			console.log(`Library cache is out of step (${entries.length} vs ${serverTotal}), reloading it`);
+			await this.loadFullLibrary(accountId);
+			return;
+		}
+
+		this.apply(accountId, entries, newestAddedAt(newEntries) ?? highWaterMark);
+		await this.persist();
+		console.log(`Library synced: ${newEntries.length} new saves, ${serverTotal} tracks in total`);
+	}
+
+	private async findRemovals(
+		entries: SavedTrackEntry[],
+		startIndex: number,
+		removedCount: number
+	): Promise<SavedTrackEntry[] | null> {
+		const removed = new Set<SavedTrackEntry>();
+
+		for (let i = startIndex, batches = 0; i < entries.length && removed.size < removedCount; i += SPOT_CHECK_BATCH_SIZE, batches++) {
+			if (batches >= MAX_SPOT_CHECK_BATCHES) return null;
+
+			const batch = entries.slice(i, i + SPOT_CHECK_BATCH_SIZE);
+			const saved = await spotifyAPI.containsSavedTracks(batch.map(entry => entry.linkedFromId ?? entry.id));
+			batch.forEach((entry, index) => {
+				if (!saved[index]) removed.add(entry);
+			});
+		}
+
+		console.log(`Spot check found ${removed.size} of ${removedCount} removed saves`);
+		return removed.size === removedCount ? entries.filter(entry => !removed.has(entry)) : null;
+	}
+
+	private apply(accountId: string | null, entries: SavedTrackEntry[], highWaterMark: string | null): void {
+		this.accountId = accountId;
+		this.entries = entries;
+		this.highWaterMark = highWaterMark;
+		userLibrary.set(toLibrarySet(entries));
+	}
+
+	private async persist(): Promise<void> {
+		if (!this.accountId || !this.highWaterMark) return;
+
+		await libraryCache.put({
+			accountId: this.accountId,
+			entries: this.entries,
+			highWaterMark: this.highWaterMark,
+			syncedAt: Date.now()
+		});
+	}
+
+	// Keeps the cached copy in step with saves made from this tab, so the next start has nothing to fetch
+	private recordLocalChange(trackIds: string[], saved: boolean): void {
+		if (this.isLazy()) {
+			const checkedAt = Date.now();
+			trackIds.forEach(id => this.membership.set(id, { saved, checkedAt }));
+			return;
+		}
+
+		if (saved) {
+			const addedAt = new Date().toISOString();
+			this.entries = [...trackIds.map(id => ({ id, linkedFromId: null, addedAt })), ...this.entries];
+		} else {
+			const removed = new Set(trackIds);
+			this.entries = this.entries.filter(entry => !removed.has(entry.id) && !(entry.linkedFromId && removed.has(entry.linkedFromId)));
+		}
+		this.persist();
+	}
+
+	// With Liked Songs as the target or a slot, liking a track is the same as adding it there
+	private syncLikedSongsTarget(trackId: string, saved: boolean): void {
+		if (saved) {
+			targetPlaylistService.addTrackToPlaylistCache(LIKED_SONGS_ID, trackId);
+		} else {
+			targetPlaylistService.removeTrackFromPlaylistCache(LIKED_SONGS_ID, trackId);
+		}
+	}
+
+	// For saves made through another path (editing Liked Songs as a playlist), where the API call already happened
+	recordSavedChange(trackIds: string[], saved: boolean): void {
+		userLibrary.update(lib => {
+			const newLib = new Set(lib);
+			trackIds.forEach(id => (saved ? newLib.add(id) : newLib.delete(id)));
+			return newLib;
+		});
+
+		this.recordLocalChange(trackIds, saved);
+		tabCoordinator.broadcast({ type: 'library-changed', trackIds, saved });
+	}
+
+	queueMembershipCheck(track: SpotifyTrack): void {
+		if (!this.isLazy() || isReadOnlyTrack(track)) return;
+
+		// Relinked tracks may be saved under either ID, so both are checked
+		[track.id, track.linked_from?.id].forEach(id => {
+			if (id && this.needsMembershipCheck(id)) {
+				this.queuedIds.add(id);
+			}
+		});
+
+		if (this.queuedIds.size > 0 && !this.flushTimer) {
+			this.flushTimer = setTimeout(() => this.flushMembershipChecks(), MEMBERSHIP_FLUSH_DELAY_MS);
+		}
+	}
+
+	private needsMembershipCheck(trackId: string): boolean {
+		if (this.queuedIds.has(trackId) || this.inFlightIds.has(trackId)) return false;
+
+		const entry = this.membership.get(trackId);
+		return !entry || Date.now() - entry.checkedAt > MEMBERSHIP_TTL_MS;
+	}
+
+	private async flushMembershipChecks(): Promise<void> {
+		this.flushTimer = null;
+		const trackIds = [...this.queuedIds];
+		this.queuedIds.clear();
+		trackIds.forEach(id => this.inFlightIds.add(id));
+
+		try {
+			const saved = await spotifyAPI.containsSavedTracks(trackIds);
+			if (!this.isLazy()) return;
+
+			this.recordMembership(trackIds, saved);
+			console.log(`Checked library membership for ${trackIds.length} tracks`);
+		} catch (error) {
+			console.error('Failed to check library membership:', error);
+		} finally {
+			trackIds.forEach(id => this.inFlightIds.delete(id));
+		}
+	}
+
+	private recordMembership(trackIds: string[], saved: boolean[]): void {
+		const checkedAt = Date.now();
+		trackIds.forEach((id, index) => this.membership.set(id, { saved: saved[index], checkedAt }));
+
+		userLibrary.update(lib => {
+			const updated = new Set(lib);
+			trackIds.forEach((id, index) => (saved[index] ? updated.add(id) : updated.delete(id)));
+			return updated;
+		});
+	}
+
 	isTrackInLibrary(trackId: string, linkedFromId?: string): boolean {
 		const library = get(userLibrary);
 		return library.has(trackId) || (linkedFromId ? library.has(linkedFromId) : false);
 	}
 
-	async addTrackToLibrary(trackId: string): Promise<void> {
+	async addTrackToLibrary(trackId: string, label = 'Like track'): Promise<void> {
 		userLibrary.update(lib => {
 			const newLib = new Set(lib);
 			newLib.add(trackId);
@@ -43,8 +305,11 @@ class LibraryService {
 		});
 
 		try {
-			await spotifyAPI.saveTracksForUser([trackId]);
-			console.log(`Track ${trackId} added to library`);
+			const { status } = await mutationOutbox.submit(label, [{ type: 'save-tracks', trackIds: [trackId] }]);
+			console.log(`Track ${trackId} added to library${status === 'queued' ? ' (pending sync)' : ''}`);
+			this.recordLocalChange([trackId], true);
+			this.syncLikedSongsTarget(trackId, true);
+			tabCoordinator.broadcast({ type: 'library-changed', trackIds: [trackId], saved: true });
 		} catch (error) {
 			console.error('Failed to add track to library:', error);
 			userLibrary.update(lib => {
@@ -56,7 +321,7 @@ class LibraryService {
 		}
 	}
 
-	async removeTrackFromLibrary(trackId: string): Promise<void> {
+	async removeTrackFromLibrary(trackId: string, label = 'Unlike track'): Promise<void> {
 		userLibrary.update(lib => {
 			const newLib = new Set(lib);
 			newLib.delete(trackId);
@@ -64,8 +329,11 @@ class LibraryService {
 		});
 
 		try {
-			await spotifyAPI.removeUserSavedTracks([trackId]);
-			console.log(`Track ${trackId} removed from library`);
+			const { status } = await mutationOutbox.submit(label, [{ type: 'remove-saved-tracks', trackIds: [trackId] }]);
+			console.log(`Track ${trackId} removed from library${status === 'queued' ? ' (pending sync)' : ''}`);
+			this.recordLocalChange([trackId], false);
+			this.syncLikedSongsTarget(trackId, false);
+			tabCoordinator.broadcast({ type: 'library-changed', trackIds: [trackId], saved: false });
 		} catch (error) {
 			console.error('Failed to remove track from library:', error);
 			userLibrary.update(lib => {
@@ -77,22 +345,114 @@ class LibraryService {
 		}
 	}
 
-	async toggleTrackInLibrary(trackId: string, linkedFromId?: string): Promise<boolean> {
+	async toggleTrackInLibrary(trackId: string, linkedFromId?: string, label?: string): Promise<boolean> {
 		const library = get(userLibrary);
 		const isInLibrary = this.isTrackInLibrary(trackId, linkedFromId);
 		
 		if (isInLibrary) {
 			const idToRemove = library.has(trackId) ? trackId : linkedFromId!;
-			await this.removeTrackFromLibrary(idToRemove);
+			await this.removeTrackFromLibrary(idToRemove, label);
 			return false;
 		} else {
 			const idToAdd = linkedFromId || trackId;
-			await this.addTrackToLibrary(idToAdd);
+			await this.addTrackToLibrary(idToAdd, label);
 			return true;
 		}
 	}
 
+	// Lazy mode only knows about rows that have been on screen, so look the rest up before deciding anything
+	async ensureMembershipKnown(tracks: SpotifyTrack[]): Promise<void> {
+		if (!this.isLazy()) return;
+
+		const unknownIds = [...new Set(tracks.flatMap(track => [track.id, track.linked_from?.id]))]
+			.filter((id): id is string => !!id && this.needsMembershipCheck(id));
+		if (unknownIds.length > 0) {
+			this.recordMembership(unknownIds, await spotifyAPI.containsSavedTracks(unknownIds));
+		}
+	}
+
+	async bulkUpdateLibrary(tracks: SpotifyTrack[], action: BulkLibraryAction): Promise<BulkLibraryResult> {
+		const saved = action !== 'unlike';
+		const candidates = tracks.filter(track => !isReadOnlyTrack(track));
+
+		if (action !== 'like') {
+			await this.ensureMembershipKnown(candidates);
+		}
+
+		const previouslySaved = new Set(get(userLibrary));
+		const trackIds = [...new Set(candidates.flatMap(track => this.bulkTargetIds(track, action, previouslySaved)))];
+		if (trackIds.length === 0) return { changed: 0, failed: 0 };
+
+		console.log(`Bulk ${action} of ${trackIds.length} tracks`);
+		userLibrary.update(lib => {
+			const newLib = new Set(lib);
+			trackIds.forEach(id => (saved ? newLib.add(id) : newLib.delete(id)));
+			return newLib;
+		});
+
+		let changed = 0;
+		let failed = 0;
+		libraryBulkProgress.set({ loaded: 0, total: trackIds.length });
+
+		try {
+			for (let i = 0; i < trackIds.length; i += LIBRARY_WRITE_BATCH_SIZE) {
+				const batch = trackIds.slice(i, i + LIBRARY_WRITE_BATCH_SIZE);
+
+				try {
+					// One entry per batch, rolling back a whole bulk like would also unlike tracks liked before it
+					await mutationOutbox.submit(`${saved ? 'Like' : 'Unlike'} ${batch.length} tracks`, [
+						saved ? { type: 'save-tracks', trackIds: batch } : { type: 'remove-saved-tracks', trackIds: batch }
+					]);
+					changed += batch.filter(id => previouslySaved.has(id) !== saved).length;
+					this.recordLocalChange(batch, saved);
+					batch.forEach(id => this.syncLikedSongsTarget(id, saved));
+					tabCoordinator.broadcast({ type: 'library-changed', trackIds: batch, saved });
+				} catch (error) {
+					// Only this batch is rolled back, the ones before it did go through
+					console.error(`Bulk ${action} failed for ${batch.length} tracks:`, error);
+					failed += batch.length;
+					userLibrary.update(lib => {
+						const newLib = new Set(lib);
+						batch.forEach(id => (previouslySaved.has(id) ? newLib.add(id) : newLib.delete(id)));
+						return newLib;
+					});
+				}
+
+				libraryBulkProgress.set({ loaded: Math.min(i + batch.length, trackIds.length), total: trackIds.length });
+			}
+		} finally {
+			libraryBulkProgress.set(null);
+		}
+
+		console.log(`Bulk ${action} finished: ${changed} changed, ${failed} failed`);
+		return { changed, failed };
+	}
+
+	private bulkTargetIds(track: SpotifyTrack, action: BulkLibraryAction, library: Set<string>): string[] {
+		const linkedFromId = track.linked_from?.id;
+
+		if (action === 'unlike') {
+			// Either ID may be the saved one, so unlike whichever is in the library
+			return [track.id, linkedFromId].filter((id): id is string => !!id && library.has(id));
+		}
+
+		if (action === 'like-missing' && this.isTrackInLibrary(track.id, linkedFromId)) {
+			return [];
+		}
+		return [linkedFromId || track.id];
+	}
+
 	clearLibrary(): void {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		this.queuedIds.clear();
+		this.membership.clear();
+		this.accountId = null;
+		this.loadedAccountId = null;
+		this.entries = [];
+		this.highWaterMark = null;
 		userLibrary.set(new Set());
 		isLibraryLoading.set(false);
 	}
@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { mutationOutbox } from './mutationOutbox';
+import type { OutboxStep } from './mutationOutbox';
+import { spotifyAPI } from './spotify';
+import type { SpotifyTrack } from './spotify';
+import { playlistCache } from './playlistCache';
+import { pendingMutations } from './stores';
+import { PlaylistConflictError, SpotifyNetworkError } from './spotifyErrors';
+
+// Stands in for the IndexedDB object store, requests resolve straight to their result
+const stored = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('./cacheDatabase', () => ({
+	OUTBOX_STORE: 'mutationOutbox',
+	promisifyRequest: (result: unknown) => Promise.resolve(result),
+	openCacheDatabase: () =>
+		Promise.resolve({
+			transaction: () => ({
+				objectStore: () => ({
+					getAll: () => structuredClone([...stored.values()]),
+					put: (entry: { id: string }) => stored.set(entry.id, structuredClone(entry)),
+					delete: (id: string) => stored.delete(id)
+				})
+			})
+		})
+}));
+
+vi.mock('./spotify', () => ({
+	isLikedSongs: (id: string) => id === 'liked-songs',
+	trackIdFromUri: (uri: string) => uri.split(':').pop(),
+	spotifyAPI: {
+		addTrackToPlaylist: vi.fn(),
+		addTracksToPlaylist: vi.fn(),
+		removeTrackFromPlaylist: vi.fn(),
+		removeTracksFromPlaylist: vi.fn(),
+		reorderPlaylistItems: vi.fn(),
+		containsSavedTracks: vi.fn(),
+		saveTracksForUser: vi.fn(),
+		removeUserSavedTracks: vi.fn()
+	}
+}));
+
+vi.mock('./playlistCache', () => ({
+	playlistCache: { loadPlaylistTracks: vi.fn() }
+}));
+
+vi.mock('./authSession', () => ({
+	authSession: { getAccountId: () => 'user-1', subscribe: () => () => {} }
+}));
+
+vi.mock('./toast', () => ({
+	toastStore: { add: vi.fn() }
+}));
+
+const api = vi.mocked(spotifyAPI);
+const loadPlaylistTracks = vi.mocked(playlistCache.loadPlaylistTracks);
+
+function ref(id: string, position?: number) {
+	return { trackUri: `spotify:track:${id}`, trackId: id, position };
+}
+
+function row(id: string, position: number): SpotifyTrack {
+	return {
+		id,
+		name: id,
+		artists: [],
+		album: { name: '', images: [] },
+		duration_ms: 0,
+		uri: `spotify:track:${id}`,
+		_position: position
+	};
+}
+
+function loaded(tracks: SpotifyTrack[], snapshotId: string) {
+	return { tracks, snapshotId, fromCache: false };
+}
+
+const offline = () => new SpotifyNetworkError('/playlists', new TypeError('Failed to fetch'));
+
+describe('mutationOutbox', () => {
+	beforeEach(() => {
+		stored.clear();
+		vi.clearAllMocks();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	it('runs the steps in order and chains each batch to the snapshot the previous one returned', async () => {
+		api.addTracksToPlaylist.mockResolvedValue('dest-1');
+		api.removeTracksFromPlaylist.mockResolvedValueOnce('src-1').mockResolvedValueOnce('src-2');
+		const onStepDone = vi.fn();
+
+		const result = await mutationOutbox.submit(
+			'Move 3 tracks',
+			[
+				{ type: 'add-tracks-to-playlist', playlistId: 'dest', items: [ref('a'), ref('b')] },
+				{
+					type: 'remove-tracks-from-playlist',
+					playlistId: 'src',
+					items: [ref('b', 5)],
+					snapshotId: 'src-0'
+				},
+				{ type: 'remove-tracks-from-playlist', playlistId: 'src', items: [ref('a', 2)] }
+			],
+			onStepDone
+		);
+
+		expect(result).toEqual({ status: 'done', snapshots: { dest: 'dest-1', src: 'src-2' } });
+		expect(api.addTracksToPlaylist).toHaveBeenCalledWith(
+			'dest',
+			['spotify:track:a', 'spotify:track:b'],
+			undefined
+		);
+		expect(api.removeTracksFromPlaylist).toHaveBeenNthCalledWith(
+			1,
+			'src',
+			[{ uri: 'spotify:track:b', position: 5 }],
+			'src-0',
+			true
+		);
+		expect(api.removeTracksFromPlaylist).toHaveBeenNthCalledWith(
+			2,
+			'src',
+			[{ uri: 'spotify:track:a', position: 2 }],
+			'src-1',
+			false
+		);
+		expect(onStepDone).toHaveBeenCalledTimes(3);
+		expect(stored.size).toBe(0);
+	});
+
+	it('puts positioned rows back as runs of neighbours, lowest first', async () => {
+		api.addTracksToPlaylist.mockResolvedValue('snap');
+
+		await mutationOutbox.submit('Restore', [
+			{
+				type: 'add-tracks-to-playlist',
+				playlistId: 'p',
+				items: [ref('c', 7), ref('a', 2), ref('b', 3)]
+			}
+		]);
+
+		expect(api.addTracksToPlaylist.mock.calls).toEqual([
+			['p', ['spotify:track:a', 'spotify:track:b'], 2],
+			['p', ['spotify:track:c'], 7]
+		]);
+	});
+
+	it('rolls back the completed steps in reverse when a later step fails for good', async () => {
+		const conflict = new PlaylistConflictError('src', 'src-0', 'src-9');
+		api.addTracksToPlaylist.mockResolvedValue('dest-1');
+		api.reorderPlaylistItems.mockResolvedValue('dest-2');
+		api.removeTracksFromPlaylist.mockRejectedValueOnce(conflict).mockResolvedValue('dest-3');
+		// The destination as the rollback finds it, after the add and the move went through
+		loadPlaylistTracks.mockResolvedValue(loaded([row('a', 0), row('x', 1)], 'dest-2'));
+
+		await expect(
+			mutationOutbox.submit('Move', [
+				{ type: 'add-tracks-to-playlist', playlistId: 'dest', items: [ref('a')] },
+				{
+					type: 'move-in-playlist',
+					playlistId: 'dest',
+					trackUri: 'spotify:track:a',
+					trackId: 'a',
+					fromPosition: 1,
+					toPosition: 0
+				},
+				{
+					type: 'remove-tracks-from-playlist',
+					playlistId: 'src',
+					items: [ref('a', 4)],
+					snapshotId: 'src-0'
+				}
+			])
+		).rejects.toBe(conflict);
+
+		// The move is undone first, taking the row from where it landed back to where it was
+		expect(api.reorderPlaylistItems).toHaveBeenLastCalledWith('dest', 0, 2, 1, 'dest-2');
+		expect(api.removeTracksFromPlaylist).toHaveBeenLastCalledWith(
+			'dest',
+			[{ uri: 'spotify:track:a', position: undefined }],
+			'dest-2',
+			false
+		);
+		expect(stored.size).toBe(0);
+	});
+
+	it('keeps an entry for later when Spotify is unreachable and finishes it on replay', async () => {
+		api.addTracksToPlaylist.mockRejectedValueOnce(offline()).mockResolvedValue('p-2');
+
+		const result = await mutationOutbox.submit('Add', [
+			{ type: 'add-tracks-to-playlist', playlistId: 'p', items: [ref('a'), ref('b')] }
+		]);
+
+		expect(result.status).toBe('queued');
+		expect(stored.size).toBe(1);
+		expect(get(pendingMutations)).toBe(1);
+
+		// The lost request did land for one of the tracks, so the replay only sends the other
+		loadPlaylistTracks.mockResolvedValue(loaded([row('a', 0)], 'p-1'));
+		await mutationOutbox.replay();
+
+		expect(api.addTracksToPlaylist).toHaveBeenLastCalledWith('p', ['spotify:track:b'], undefined);
+		expect(stored.size).toBe(0);
+		expect(get(pendingMutations)).toBe(0);
+	});
+
+	it('only removes rows that still hold their track when a removal is replayed', async () => {
+		api.removeTracksFromPlaylist.mockRejectedValueOnce(offline()).mockResolvedValue('p-2');
+		const step: OutboxStep = {
+			type: 'remove-tracks-from-playlist',
+			playlistId: 'p',
+			items: [ref('a', 0), ref('b', 3)],
+			snapshotId: 'p-0'
+		};
+
+		await mutationOutbox.submit('Remove', [step]);
+		loadPlaylistTracks.mockResolvedValue(
+			loaded([row('a', 0), row('x', 1), row('y', 2), row('z', 3)], 'p-1')
+		);
+		await mutationOutbox.replay();
+
+		expect(api.removeTracksFromPlaylist).toHaveBeenLastCalledWith(
+			'p',
+			[{ uri: 'spotify:track:a', position: 0 }],
+			'p-1',
+			false
+		);
+	});
+
+	it('skips a replayed move whose row already sits at its destination', async () => {
+		api.reorderPlaylistItems.mockRejectedValueOnce(offline());
+
+		await mutationOutbox.submit('Move a track', [
+			{
+				type: 'move-in-playlist',
+				playlistId: 'p',
+				trackUri: 'spotify:track:a',
+				trackId: 'a',
+				fromPosition: 2,
+				toPosition: 0
+			}
+		]);
+		loadPlaylistTracks.mockResolvedValue(loaded([row('a', 0), row('b', 1), row('c', 2)], 'p-1'));
+		await mutationOutbox.replay();
+
+		expect(api.reorderPlaylistItems).toHaveBeenCalledTimes(1);
+		expect(stored.size).toBe(0);
+	});
+});
@@ -0,0 +1,616 @@
+import { OUTBOX_STORE, openCacheDatabase, promisifyRequest } from './cacheDatabase';
+import { spotifyAPI, isLikedSongs, trackIdFromUri } from './spotify';
+import type { SpotifyTrack } from './spotify';
+import { playlistCache } from './playlistCache';
+import { authSession } from './authSession';
+import { pendingMutations } from './stores';
+import { toastStore } from './toast';
+import {
+	SpotifyAuthError,
+	SpotifyNetworkError,
+	SpotifyRateLimitError,
+	SpotifyServerError,
+	getSpotifyErrorMessage
+} from './spotifyErrors';
+
+const RETRY_DELAY_MS = 30000;
+const REPLAY_LOCK = 'motify-outbox-replay';
+
+export type OutboxStep =
+	| {
+			type: 'add-to-playlist';
+			playlistId: string;
+			trackUri: string;
+			trackId: string;
+			position?: number;
+	  }
+	| {
+			type: 'remove-from-playlist';
+			playlistId: string;
+			trackUri: string;
+			trackId: string;
+			position?: number;
+			snapshotId?: string | null;
+	  }
+	| { type: 'add-tracks-to-playlist'; playlistId: string; items: OutboxTrackRef[] }
+	| {
+			type: 'remove-tracks-from-playlist';
+			playlistId: string;
+			items: OutboxTrackRef[];
+			// Checked before sending; without it the snapshot returned by the entry's previous step is used
+			snapshotId?: string | null;
+	  }
+	| {
+			type: 'move-in-playlist';
+			playlistId: string;
+			trackUri: string;
+			trackId: string;
+			fromPosition: number;
+			// Where the row ends up once the move is done
+			toPosition: number;
+			snapshotId?: string | null;
+	  }
+	| { type: 'save-tracks'; trackIds: string[] }
+	| { type: 'remove-saved-tracks'; trackIds: string[] };
+
+// One row of a batched playlist step, positions are only known for rows taken from a loaded playlist
+export interface OutboxTrackRef {
+	trackUri: string;
+	trackId: string;
+	position?: number;
+}
+
+interface OutboxEntry {
+	id: string;
+	accountId: string | null;
+	label: string;
+	steps: OutboxStep[];
+	// Steps before this index already reached Spotify, a replay picks up from here
+	completedSteps: number;
+	attempts: number;
+	createdAt: number;
+}
+
+export interface OutboxResult {
+	status: 'done' | 'queued';
+	// New snapshot IDs by playlist, only known when the entry went through right away
+	snapshots: Record<string, string>;
+}
+
+type EntryOutcome =
+	| { status: 'done'; snapshots: Record<string, string> }
+	| { status: 'queued' }
+	| { status: 'failed'; error: unknown };
+
+// Worth retrying later: Spotify was unreachable, overloaded or the session needs a new token
+function isTransientError(error: unknown): boolean {
+	if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+		return true;
+	}
+
+	return (
+		error instanceof SpotifyNetworkError ||
+		error instanceof SpotifyServerError ||
+		error instanceof SpotifyRateLimitError ||
+		error instanceof SpotifyAuthError
+	);
+}
+
+function inverseStep(step: OutboxStep): OutboxStep {
+	switch (step.type) {
+		case 'add-to-playlist':
+			return {
+				type: 'remove-from-playlist',
+				playlistId: step.playlistId,
+				trackUri: step.trackUri,
+				trackId: step.trackId
+			};
+		case 'remove-from-playlist':
+			return {
+				type: 'add-to-playlist',
+				playlistId: step.playlistId,
+				trackUri: step.trackUri,
+				trackId: step.trackId,
+				position: step.position
+			};
+		// Rows added without a position were missing before, so removing their URIs takes out just those copies
+		case 'add-tracks-to-playlist':
+			return {
+				type: 'remove-tracks-from-playlist',
+				playlistId: step.playlistId,
+				items: step.items
+			};
+		case 'remove-tracks-from-playlist':
+			return { type: 'add-tracks-to-playlist', playlistId: step.playlistId, items: step.items };
+		case 'move-in-playlist':
+			return {
+				...step,
+				fromPosition: step.toPosition,
+				toPosition: step.fromPosition,
+				snapshotId: undefined
+			};
+		case 'save-tracks':
+			return { type: 'remove-saved-tracks', trackIds: step.trackIds };
+		case 'remove-saved-tracks':
+			return { type: 'save-tracks', trackIds: step.trackIds };
+	}
+}
+
+class MutationOutbox {
+	private queue: Promise<unknown> = Promise.resolve();
+	private retryTimer: ReturnType<typeof setTimeout> | null = null;
+	private isStarted = false;
+
+	start(): void {
+		if (this.isStarted || typeof window === 'undefined') return;
+		this.isStarted = true;
+
+		window.addEventListener('online', () => {
+			console.log('Connection restored, replaying pending changes');
+			this.replay();
+		});
+
+		authSession.subscribe((event) => {
+			if (event.type === 'tokenRefreshed') {
+				this.replay();
+			}
+		});
+	}
+
+	// Persists the change before sending it, so a failure halfway through can be finished later
+	// onStepDone reports progress for long entries, it is not called for steps finished by a replay
+	async submit(
+		label: string,
+		steps: OutboxStep[],
+		onStepDone?: (step: OutboxStep) => void
+	): Promise<OutboxResult> {
+		const entry: OutboxEntry = {
+			id: Date.now().toString() + Math.random().toString(36).slice(2, 11),
+			accountId: authSession.getAccountId(),
+			label,
+			steps,
+			completedSteps: 0,
+			attempts: 0,
+			createdAt: Date.now()
+		};
+
+		const isPersisted = await this.put(entry);
+		const outcome = await this.enqueue(() => this.process({ entry, isPersisted, onStepDone }));
+
+		if (outcome.status === 'failed') {
+			throw outcome.error;
+		}
+
+		if (outcome.status === 'queued') {
+			toastStore.add({
+				message: `Spotify is unreachable, this will sync once it is back: ${label}`,
+				type: 'info'
+			});
+			return { status: 'queued', snapshots: {} };
+		}
+
+		return { status: 'done', snapshots: outcome.snapshots };
+	}
+
+	async replay(): Promise<void> {
+		if (this.retryTimer) {
+			clearTimeout(this.retryTimer);
+			this.retryTimer = null;
+		}
+
+		try {
+			await this.enqueue(() => this.process());
+		} catch (error) {
+			console.error('Failed to replay pending changes:', error);
+		}
+	}
+
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.queue.then(() => this.withReplayLock(task));
+		this.queue = run.catch(() => undefined);
+		return run;
+	}
+
+	// Tabs share the outbox, so only one of them may work through it at a time
+	private withReplayLock<T>(task: () => Promise<T>): Promise<T> {
+		if (typeof navigator === 'undefined' || !navigator.locks) {
+			return task();
+		}
+		return navigator.locks.request(REPLAY_LOCK, task) as Promise<T>;
+	}
+
+	// Works through the account's entries oldest first and stops at the first one that has to wait
+	private async process(submitted?: {
+		entry: OutboxEntry;
+		isPersisted: boolean;
+		onStepDone?: (step: OutboxStep) => void;
+	}): Promise<EntryOutcome> {
+		const accountId = authSession.getAccountId();
+		const entries = ((await this.getAll()) ?? [])
+			.filter((entry) => entry.accountId === accountId)
+			.sort((a, b) => a.createdAt - b.createdAt);
+
+		// Without a stored copy there is nothing to replay later, so it gets a single attempt
+		if (submitted && !submitted.isPersisted) {
+			entries.push(submitted.entry);
+		}
+
+		// Another tab may already have sent it while this one waited for the lock
+		let submittedOutcome: EntryOutcome = { status: 'done', snapshots: {} };
+		let replayed = 0;
+
+		for (const entry of entries) {
+			const isSubmitted = entry.id === submitted?.entry.id;
+			const canQueue = !isSubmitted || submitted?.isPersisted === true;
+			const outcome = await this.runEntry(
+				entry,
+				canQueue,
+				isSubmitted ? submitted?.onStepDone : undefined
+			);
+
+			if (isSubmitted) {
+				submittedOutcome = outcome;
+			} else if (outcome.status === 'done') {
+				replayed++;
+			} else if (outcome.status === 'failed') {
+				toastStore.add({
+					message: `Failed to sync ${entry.label}: ${getSpotifyErrorMessage(outcome.error)}`,
+					type: 'error'
+				});
+			}
+
+			if (outcome.status === 'queued') {
+				// Later entries may depend on this one, so they keep waiting behind it
+				if (submitted && !isSubmitted && entries.some((e) => e.id === submitted.entry.id)) {
+					submittedOutcome = { status: 'queued' };
+				}
+				this.scheduleRetry();
+				break;
+			}
+		}
+
+		if (replayed > 0) {
+			toastStore.add({
+				message: `Synced ${replayed} pending ${replayed === 1 ? 'change' : 'changes'} with Spotify`,
+				type: 'success'
+			});
+		}
+
+		await this.refreshPendingCount();
+		return submittedOutcome;
+	}
+
+	private async runEntry(
+		entry: OutboxEntry,
+		canQueue: boolean,
+		onStepDone?: (step: OutboxStep) => void
+	): Promise<EntryOutcome> {
+		// A replayed step may have reached Spotify before the connection dropped
+		const isReplay = entry.attempts > 0;
+		const snapshots: Record<string, string> = {};
+		entry.attempts++;
+
+		for (let i = entry.completedSteps; i < entry.steps.length; i++) {
+			const step = entry.steps[i];
+
+			try {
+				const snapshotId = await this.runStep(step, isReplay, snapshots);
+				if (snapshotId && 'playlistId' in step) {
+					snapshots[step.playlistId] = snapshotId;
+				}
+				entry.completedSteps = i + 1;
+				onStepDone?.(step);
+			} catch (error) {
+				if (canQueue && isTransientError(error)) {
+					console.warn(`"${entry.label}" could not reach Spotify, keeping it for later:`, error);
+					await this.put(entry);
+					return { status: 'queued' };
+				}
+
+				console.error(`"${entry.label}" failed, rolling back its completed steps:`, error);
+				await this.compensate(entry.steps.slice(0, entry.completedSteps));
+				await this.delete(entry.id);
+				return { status: 'failed', error };
+			}
+
+			if (entry.completedSteps < entry.steps.length) {
+				await this.put(entry);
+			}
+		}
+
+		console.log(`"${entry.label}" synced with Spotify`);
+		await this.delete(entry.id);
+		return { status: 'done', snapshots };
+	}
+
+	// Undoes the steps that went through, so a compound change never stays half applied
+	private async compensate(steps: OutboxStep[]): Promise<void> {
+		for (const step of [...steps].reverse()) {
+			try {
+				await this.runStep(inverseStep(step), true, {});
+			} catch (error) {
+				console.error(`Failed to roll back ${step.type} step:`, error);
+			}
+		}
+	}
+
+	// Replays check Spotify's current state first, so running a step twice changes nothing
+	// Snapshots returned by earlier steps of the same entry keep later positions pinned to them
+	private async runStep(
+		step: OutboxStep,
+		isReplay: boolean,
+		snapshots: Record<string, string>
+	): Promise<string | null> {
+		switch (step.type) {
+			case 'add-to-playlist': {
+				if (!isReplay) {
+					return spotifyAPI.addTrackToPlaylist(step.playlistId, step.trackUri, step.position);
+				}
+
+				if (isLikedSongs(step.playlistId)) {
+					const [isSaved] = await spotifyAPI.containsSavedTracks([trackIdFromUri(step.trackUri)]);
+					return isSaved ? null : spotifyAPI.addTrackToPlaylist(step.playlistId, step.trackUri);
+				}
+
+				const { tracks } = await playlistCache.loadPlaylistTracks(step.playlistId);
+				if (tracks.some((track) => this.isStepTrack(track, step))) {
+					console.log(`Track ${step.trackId} is already in playlist ${step.playlistId}, skipping`);
+					return null;
+				}
+
+				const position =
+					step.position === undefined ? undefined : Math.min(step.position, tracks.length);
+				return spotifyAPI.addTrackToPlaylist(step.playlistId, step.trackUri, position);
+			}
+			case 'remove-from-playlist': {
+				if (!isReplay) {
+					return spotifyAPI.removeTrackFromPlaylist(step.playlistId, step.trackUri, {
+						position: step.position,
+						snapshotId: step.snapshotId
+					});
+				}
+
+				if (isLikedSongs(step.playlistId)) {
+					const [isSaved] = await spotifyAPI.containsSavedTracks([trackIdFromUri(step.trackUri)]);
+					return isSaved
+						? spotifyAPI.removeTrackFromPlaylist(step.playlistId, step.trackUri)
+						: null;
+				}
+
+				// The snapshot is stale by now, so the position only counts if the track still sits there
+				const { tracks } = await playlistCache.loadPlaylistTracks(step.playlistId);
+				if (!tracks.some((track) => this.isStepTrack(track, step))) {
+					console.log(
+						`Track ${step.trackId} is no longer in playlist ${step.playlistId}, skipping`
+					);
+					return null;
+				}
+
+				const atPosition = tracks.find((track) => track._position === step.position);
+				const position =
+					atPosition && this.isStepTrack(atPosition, step) ? step.position : undefined;
+				return spotifyAPI.removeTrackFromPlaylist(step.playlistId, step.trackUri, { position });
+			}
+			case 'add-tracks-to-playlist':
+				return this.addTracks(
+					step.playlistId,
+					isReplay ? await this.missingItems(step) : step.items
+				);
+			case 'remove-tracks-from-playlist': {
+				if (!isReplay) {
+					const snapshotId = step.snapshotId ?? snapshots[step.playlistId] ?? null;
+					return spotifyAPI.removeTracksFromPlaylist(
+						step.playlistId,
+						step.items.map((item) => ({ uri: item.trackUri, position: item.position })),
+						snapshotId,
+						!!step.snapshotId
+					);
+				}
+
+				if (isLikedSongs(step.playlistId)) {
+					const saved = await spotifyAPI.containsSavedTracks(
+						step.items.map((item) => trackIdFromUri(item.trackUri))
+					);
+					const items = step.items.filter((_, index) => saved[index]);
+					return items.length > 0
+						? spotifyAPI.removeTracksFromPlaylist(
+								step.playlistId,
+								items.map((item) => ({ uri: item.trackUri }))
+							)
+						: null;
+				}
+
+				// Positions are taken against the playlist as it is now, and only rows still holding their track go
+				const { tracks, snapshotId } = await playlistCache.loadPlaylistTracks(step.playlistId);
+				const items = step.items.filter((item) =>
+					item.position === undefined
+						? tracks.some((track) => this.isStepTrack(track, item))
+						: this.isRowAt(tracks, item.position, item)
+				);
+				if (items.length < step.items.length) {
+					console.log(
+						`${step.items.length - items.length} rows are no longer in playlist ${step.playlistId}, skipping them`
+					);
+				}
+				return items.length > 0
+					? spotifyAPI.removeTracksFromPlaylist(
+							step.playlistId,
+							items.map((item) => ({ uri: item.trackUri, position: item.position })),
+							snapshotId,
+							false
+						)
+					: null;
+			}
+			case 'move-in-playlist': {
+				let from = step.fromPosition;
+				let to = step.toPosition;
+				let snapshotId = step.snapshotId ?? snapshots[step.playlistId] ?? null;
+
+				if (isReplay) {
+					const loaded = await playlistCache.loadPlaylistTracks(step.playlistId);
+					if (this.isRowAt(loaded.tracks, to, step)) {
+						console.log(`Track ${step.trackId} already sits at ${to}, skipping`);
+						return null;
+					}
+					if (!this.isRowAt(loaded.tracks, from, step)) {
+						from = loaded.tracks.findIndex((track) => this.isStepTrack(track, step));
+					}
+					if (from === -1) {
+						console.log(
+							`Track ${step.trackId} is no longer in playlist ${step.playlistId}, skipping`
+						);
+						return null;
+					}
+					to = Math.min(to, loaded.tracks.length - 1);
+					snapshotId = loaded.snapshotId;
+				}
+
+				const insertBefore = to > from ? to + 1 : to;
+				return spotifyAPI.reorderPlaylistItems(
+					step.playlistId,
+					from,
+					insertBefore,
+					1,
+					snapshotId || undefined
+				);
+			}
+			case 'save-tracks':
+				await spotifyAPI.saveTracksForUser(step.trackIds);
+				return null;
+			case 'remove-saved-tracks':
+				await spotifyAPI.removeUserSavedTracks(step.trackIds);
+				return null;
+		}
+	}
+
+	// Rows with a position go back in as runs of neighbours, lowest first, so each run lands on its old spot
+	private async addTracks(playlistId: string, items: OutboxTrackRef[]): Promise<string | null> {
+		const positioned = items
+			.filter((item) => item.position !== undefined)
+			.sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+		const runs: OutboxTrackRef[][] = [];
+		positioned.forEach((item) => {
+			const run = runs[runs.length - 1];
+			const previous = run?.[run.length - 1].position;
+			if (run && previous !== undefined && item.position === previous + 1) {
+				run.push(item);
+			} else {
+				runs.push([item]);
+			}
+		});
+
+		const appended = items.filter((item) => item.position === undefined);
+		if (appended.length > 0) {
+			runs.push(appended);
+		}
+
+		let snapshotId: string | null = null;
+		for (const run of runs) {
+			snapshotId = await spotifyAPI.addTracksToPlaylist(
+				playlistId,
+				run.map((item) => item.trackUri),
+				run[0].position
+			);
+		}
+		return snapshotId;
+	}
+
+	// Leaves out rows a lost response already put in, and clamps positions to the playlist as it is now
+	private async missingItems(
+		step: Extract<OutboxStep, { type: 'add-tracks-to-playlist' }>
+	): Promise<OutboxTrackRef[]> {
+		if (isLikedSongs(step.playlistId)) {
+			const saved = await spotifyAPI.containsSavedTracks(
+				step.items.map((item) => trackIdFromUri(item.trackUri))
+			);
+			return step.items.filter((_, index) => !saved[index]);
+		}
+
+		const { tracks } = await playlistCache.loadPlaylistTracks(step.playlistId);
+		return step.items
+			.filter((item) =>
+				item.position === undefined
+					? !tracks.some((track) => this.isStepTrack(track, item))
+					: !this.isRowAt(tracks, item.position, item)
+			)
+			.map((item) =>
+				item.position === undefined
+					? item
+					: { ...item, position: Math.min(item.position, tracks.length) }
+			);
+	}
+
+	private isRowAt(
+		tracks: SpotifyTrack[],
+		position: number,
+		step: { trackId: string; trackUri: string }
+	): boolean {
+		const row = tracks.find((track) => track._position === position);
+		return !!row && this.isStepTrack(row, step);
+	}
+
+	private isStepTrack(track: SpotifyTrack, step: { trackId: string; trackUri: string }): boolean {
+		return (
+			track.id === step.trackId ||
+			track.uri === step.trackUri ||
+			track.linked_from?.uri === step.trackUri
+		);
+	}
+
+	private scheduleRetry(): void {
+		if (this.retryTimer) return;
+
+		this.retryTimer = setTimeout(() => {
+			this.retryTimer = null;
+			this.replay();
+		}, RETRY_DELAY_MS);
+	}
+
+	async refreshPendingCount(): Promise<void> {
+		const accountId = authSession.getAccountId();
+		const entries = (await this.getAll()) ?? [];
+		pendingMutations.set(entries.filter((entry) => entry.accountId === accountId).length);
+	}
+
+	// Resolves to null when IndexedDB is unavailable
+	private async getAll(): Promise<OutboxEntry[] | null> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return null;
+
+			const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+			return await promisifyRequest<OutboxEntry[]>(store.getAll());
+		} catch (error) {
+			console.warn('Failed to read the mutation outbox:', error);
+			return null;
+		}
+	}
+
+	private async put(entry: OutboxEntry): Promise<boolean> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return false;
+
+			const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+			await promisifyRequest(store.put(entry));
+			return true;
+		} catch (error) {
+			console.warn(`Failed to write "${entry.label}" to the mutation outbox:`, error);
+			return false;
+		}
+	}
+
+	private async delete(id: string): Promise<void> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return;
+
+			const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+			await promisifyRequest(store.delete(id));
+		} catch (error) {
+			console.warn(`Failed to delete entry ${id} from the mutation outbox:`, error);
+		}
+	}
+}
+
+export const mutationOutbox = new MutationOutbox();
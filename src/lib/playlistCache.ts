@@ -0,0 +1,100 @@
+import { spotifyAPI } from './spotify';
+import type { SpotifyTrack } from './spotify';
+import { PLAYLIST_STORE, openCacheDatabase, promisifyRequest } from './cacheDatabase';
+
+export interface CachedPlaylist {
+	playlistId: string;
+	snapshotId: string;
+	tracks: SpotifyTrack[];
+	cachedAt: number;
+}
+
+export type PlaylistLoadProgressHandler = (
+	tracksSoFar: SpotifyTrack[],
+	loaded: number,
+	total: number
+) => void;
+
+export interface PlaylistTracksResult {
+	tracks: SpotifyTrack[];
+	snapshotId: string;
+	fromCache: boolean;
+}
+
+class PlaylistCache {
+	async get(playlistId: string): Promise<CachedPlaylist | null> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return null;
+
+			const store = db.transaction(PLAYLIST_STORE, 'readonly').objectStore(PLAYLIST_STORE);
+			const entry = await promisifyRequest<CachedPlaylist | undefined>(store.get(playlistId));
+			return entry || null;
+		} catch (error) {
+			console.warn(`Failed to read playlist ${playlistId} from cache:`, error);
+			return null;
+		}
+	}
+
+	async put(entry: CachedPlaylist): Promise<void> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return;
+
+			const store = db.transaction(PLAYLIST_STORE, 'readwrite').objectStore(PLAYLIST_STORE);
+			await promisifyRequest(store.put(entry));
+		} catch (error) {
+			console.warn(`Failed to write playlist ${entry.playlistId} to cache:`, error);
+		}
+	}
+
+	async delete(playlistId: string): Promise<void> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return;
+
+			const store = db.transaction(PLAYLIST_STORE, 'readwrite').objectStore(PLAYLIST_STORE);
+			await promisifyRequest(store.delete(playlistId));
+		} catch (error) {
+			console.warn(`Failed to delete playlist ${playlistId} from cache:`, error);
+		}
+	}
+
+	async clear(): Promise<void> {
+		try {
+			const db = await openCacheDatabase();
+			if (!db) return;
+
+			const store = db.transaction(PLAYLIST_STORE, 'readwrite').objectStore(PLAYLIST_STORE);
+			await promisifyRequest(store.clear());
+			console.log('Playlist cache cleared');
+		} catch (error) {
+			console.warn('Failed to clear playlist cache:', error);
+		}
+	}
+
+	async loadPlaylistTracks(
+		playlistId: string,
+		onProgress?: PlaylistLoadProgressHandler
+	): Promise<PlaylistTracksResult> {
+		const snapshotId = await spotifyAPI.getPlaylistSnapshotId(playlistId);
+		const cached = await this.get(playlistId);
+
+		if (cached && cached.snapshotId === snapshotId) {
+			console.log(`Serving ${cached.tracks.length} cached tracks for playlist ${playlistId}`);
+			return { tracks: cached.tracks, snapshotId, fromCache: true };
+		}
+
+		let tracks: SpotifyTrack[] = [];
+		for await (const page of spotifyAPI.streamPlaylistTracks(playlistId)) {
+			tracks = tracks.concat(page.tracks);
+			onProgress?.(tracks, page.loaded, page.total);
+		}
+
+		console.log(`Fetched ${tracks.length} tracks for playlist ${playlistId}`);
+		await this.put({ playlistId, snapshotId, tracks, cachedAt: Date.now() });
+		return { tracks, snapshotId, fromCache: false };
+	}
+}
+
+export const playlistCache = new PlaylistCache();
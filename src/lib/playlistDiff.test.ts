@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlaylists, matchKeys, planReorder } from './playlistDiff';
+import type { SpotifyTrack } from './spotify';
+
+function track(id: string, extra: Partial<SpotifyTrack> = {}): SpotifyTrack {
+	return {
+		id,
+		name: `Song ${id}`,
+		artists: [{ name: 'Artist' }],
+		album: { name: 'Album', images: [] },
+		duration_ms: 180000,
+		uri: `spotify:track:${id}`,
+		...extra
+	};
+}
+
+function relinked(id: string, originalId: string): SpotifyTrack {
+	return track(id, {
+		linked_from: {
+			id: originalId,
+			uri: `spotify:track:${originalId}`,
+			external_urls: { spotify: '' }
+		}
+	});
+}
+
+const ids = (tracks: SpotifyTrack[]) => tracks.map((t) => t.id);
+
+describe('matchKeys', () => {
+	it('keys a relinked track by its own ID and the URI it was relinked from', () => {
+		expect(matchKeys(relinked('b', 'a'))).toEqual(['id:b', 'uri:spotify:track:a']);
+	});
+});
+
+describe('diffPlaylists', () => {
+	it('splits tracks into those only in A, only in B and in both', () => {
+		const diff = diffPlaylists([track('a'), track('b')], [track('b'), track('c')]);
+
+		expect(ids(diff.onlyA)).toEqual(['a']);
+		expect(ids(diff.onlyB)).toEqual(['c']);
+		expect(ids(diff.both)).toEqual(['b']);
+	});
+
+	it('treats a relinked copy as the same track as its original', () => {
+		const diff = diffPlaylists([track('a')], [relinked('b', 'a')]);
+
+		expect(ids(diff.both)).toEqual(['a']);
+		expect(diff.onlyA).toEqual([]);
+		expect(diff.onlyB).toEqual([]);
+	});
+
+	it('lists a track repeated inside one playlist once', () => {
+		const diff = diffPlaylists([track('a'), track('a')], []);
+
+		expect(ids(diff.onlyA)).toEqual(['a']);
+	});
+
+	it('leaves out local files and episodes', () => {
+		const diff = diffPlaylists(
+			[track('local', { is_local: true }), track('episode', { type: 'episode' })],
+			[track('local', { is_local: true })]
+		);
+
+		expect(diff).toEqual({ onlyA: [], onlyB: [], both: [] });
+	});
+});
+
+describe('planReorder', () => {
+	function apply(rows: SpotifyTrack[], moves: ReturnType<typeof planReorder>): SpotifyTrack[] {
+		const result = [...rows];
+		moves.forEach(({ track, from, to }) => {
+			const [moved] = result.splice(from, 1);
+			expect(moved).toBe(track);
+			result.splice(to, 0, moved);
+		});
+		return result;
+	}
+
+	it('makes no moves for a playlist that is already in order', () => {
+		const rows = [track('a'), track('b'), track('c')];
+
+		expect(planReorder(rows, rows)).toEqual([]);
+	});
+
+	it('moves only the rows that are out of order', () => {
+		const rows = ['a', 'b', 'c', 'd', 'e'].map((id) => track(id));
+		const ordered = ['b', 'c', 'd', 'e', 'a'].map((id) => track(id));
+
+		const moves = planReorder(rows, ordered);
+
+		expect(moves).toHaveLength(1);
+		expect(ids(apply(rows, moves))).toEqual(['b', 'c', 'd', 'e', 'a']);
+	});
+
+	it('puts unlisted rows after the listed ones, keeping their order', () => {
+		const rows = [track('local', { is_local: true }), track('a'), track('x'), track('b')];
+
+		const moves = planReorder(rows, [track('b'), track('a')]);
+
+		expect(ids(apply(rows, moves))).toEqual(['b', 'a', 'local', 'x']);
+	});
+
+	it('skips listed tracks that have no row', () => {
+		const rows = [track('b'), track('a')];
+
+		expect(ids(apply(rows, planReorder(rows, [track('a'), track('missing'), track('b')])))).toEqual(
+			['a', 'b']
+		);
+	});
+
+	it('needs as many moves as rows outside the longest run already in order', () => {
+		const rows = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => track(id));
+		const ordered = ['f', 'a', 'e', 'b', 'c', 'd'].map((id) => track(id));
+
+		const moves = planReorder(rows, ordered);
+
+		// a, b, c, d stay, so only e and f move
+		expect(moves).toHaveLength(2);
+		expect(ids(apply(rows, moves))).toEqual(ids(ordered));
+	});
+});
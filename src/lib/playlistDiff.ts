@@ -0,0 +1,113 @@
+import { getOperationalUri } from './spotify';
+import type { SpotifyTrack } from './spotify';
+import { isReadOnlyTrack } from './utils';
+
+export type DiffBucket = 'onlyA' | 'onlyB' | 'both';
+
+export type PlaylistDiff = Record<DiffBucket, SpotifyTrack[]>;
+
+// A relinked copy shares its operational URI with the original, so either key counts as a match
+export function matchKeys(track: SpotifyTrack): string[] {
+	return [`id:${track.id}`, `uri:${getOperationalUri(track)}`];
+}
+
+// Repeats of the same track inside one playlist are listed once, at their first row
+function distinctTracks(tracks: SpotifyTrack[]): SpotifyTrack[] {
+	const seen = new Set<string>();
+	return tracks.filter((track) => {
+		const keys = matchKeys(track);
+		if (keys.some((key) => seen.has(key))) return false;
+		keys.forEach((key) => seen.add(key));
+		return true;
+	});
+}
+
+// A track counts as shared when the other playlist has the same ID or resolves to the same relinked URI
+export function diffPlaylists(tracksA: SpotifyTrack[], tracksB: SpotifyTrack[]): PlaylistDiff {
+	const rowsA = distinctTracks(tracksA.filter((track) => !isReadOnlyTrack(track)));
+	const rowsB = distinctTracks(tracksB.filter((track) => !isReadOnlyTrack(track)));
+	const keysA = new Set(rowsA.flatMap(matchKeys));
+	const keysB = new Set(rowsB.flatMap(matchKeys));
+
+	return {
+		onlyA: rowsA.filter((track) => !matchKeys(track).some((key) => keysB.has(key))),
+		onlyB: rowsB.filter((track) => !matchKeys(track).some((key) => keysA.has(key))),
+		both: rowsA.filter((track) => matchKeys(track).some((key) => keysB.has(key)))
+	};
+}
+
+export interface RowMove {
+	track: SpotifyTrack;
+	from: number;
+	// Where the row ends up, counted once it has been taken out
+	to: number;
+}
+
+// Indices of one longest strictly increasing run of values, not necessarily next to each other
+function longestIncreasing(values: number[]): Set<number> {
+	const tails: number[] = [];
+	const previous = new Array<number>(values.length).fill(-1);
+
+	values.forEach((value, index) => {
+		let low = 0;
+		let high = tails.length;
+		while (low < high) {
+			const middle = (low + high) >> 1;
+			if (values[tails[middle]] < value) {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
+		}
+		previous[index] = low > 0 ? tails[low - 1] : -1;
+		tails[low] = index;
+	});
+
+	const kept = new Set<number>();
+	for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+		kept.add(index);
+	}
+	return kept;
+}
+
+// Single row moves that bring the listed tracks to the top in the given order, with unlisted rows like
+// local files after them. Rows that are already in order relative to each other stay put, so the number
+// of moves is the smallest possible; apply them one after the other
+export function planReorder(rows: SpotifyTrack[], ordered: SpotifyTrack[]): RowMove[] {
+	const rowKeys = rows.map(matchKeys);
+	const ranks = new Array<number>(rows.length).fill(-1);
+	let nextRank = 0;
+
+	ordered.forEach((track) => {
+		const keys = matchKeys(track);
+		const index = rowKeys.findIndex(
+			(candidate, i) => ranks[i] === -1 && candidate.some((key) => keys.includes(key))
+		);
+		// Tracks that failed to go in have no row to move
+		if (index !== -1) ranks[index] = nextRank++;
+	});
+	ranks.forEach((rank, index) => {
+		if (rank === -1) ranks[index] = nextRank++;
+	});
+
+	const staying = longestIncreasing(ranks);
+	const rowByRank = new Array<number>(rows.length);
+	ranks.forEach((rank, index) => (rowByRank[rank] = index));
+
+	// Each row goes straight after the one ranked before it, which by then is already in its place
+	const current = rows.map((_, index) => index);
+	const moves: RowMove[] = [];
+	rowByRank
+		.filter((index) => !staying.has(index))
+		.forEach((index) => {
+			const from = current.indexOf(index);
+			current.splice(from, 1);
+			const rank = ranks[index];
+			const to = rank === 0 ? 0 : current.indexOf(rowByRank[rank - 1]) + 1;
+			current.splice(to, 0, index);
+			if (from !== to) {
+				moves.push({ track: rows[index], from, to });
+			}
+		});
+	return moves;
+}
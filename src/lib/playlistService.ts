@@ -0,0 +1,699 @@
+import { spotifyAPI, isLikedSongs, getOperationalUri, LIKED_SONGS_ID } from './spotify';
+import { tabCoordinator } from './tabCoordinator';
+import { playlistCache } from './playlistCache';
+import { targetPlaylistService } from './targetPlaylistService';
+import { libraryService } from './libraryService';
+import { removeTrackRow, isSameTrackRow } from './utils';
+import { planReorder } from './playlistDiff';
+import { mutationOutbox } from './mutationOutbox';
+import type { OutboxResult, OutboxStep, OutboxTrackRef } from './mutationOutbox';
+import {
+	user,
+	playlists,
+	selectedPlaylist,
+	targetPlaylist,
+	playlistSelections,
+	currentTracks,
+	originalTrackOrder,
+	currentPlaylistSnapshot,
+	currentTrackIndex,
+	playlistBulkProgress
+} from './stores';
+import { get } from 'svelte/store';
+import { PlaylistConflictError } from './spotifyErrors';
+import type { PlaylistDetails, SpotifyPlaylist, SpotifyTrack } from './spotify';
+
+// Spotify accepts at most 100 items per playlist add or removal
+const PLAYLIST_WRITE_BATCH_SIZE = 100;
+
+export interface BulkPlaylistResult {
+	changed: number;
+	// Already in the destination playlist, so nothing was sent for them
+	skipped: number;
+	failed: number;
+}
+
+interface BatchOutcome {
+	succeeded: SpotifyTrack[];
+	skipped: SpotifyTrack[];
+	failed: SpotifyTrack[];
+}
+
+function toTrackRef(track: SpotifyTrack, withPosition = false): OutboxTrackRef {
+	return {
+		trackUri: getOperationalUri(track),
+		trackId: track.id,
+		...(withPosition && track._position !== undefined ? { position: track._position } : {})
+	};
+}
+
+function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+	const updated = [...items];
+	const [moved] = updated.splice(fromIndex, 1);
+	updated.splice(toIndex, 0, moved);
+	return updated;
+}
+
+function shiftPosition(position: number, fromPosition: number, toPosition: number): number {
+	if (position === fromPosition) return toPosition;
+	if (fromPosition < toPosition && position > fromPosition && position <= toPosition) {
+		return position - 1;
+	}
+	if (toPosition < fromPosition && position >= toPosition && position < fromPosition) {
+		return position + 1;
+	}
+	return position;
+}
+
+function moveTrackRow(
+	tracks: SpotifyTrack[],
+	fromIndex: number,
+	toIndex: number,
+	fromPosition: number,
+	toPosition: number
+): SpotifyTrack[] {
+	return moveItem(tracks, fromIndex, toIndex).map((track) =>
+		track._position !== undefined
+			? { ...track, _position: shiftPosition(track._position, fromPosition, toPosition) }
+			: track
+	);
+}
+
+class PlaylistService {
+	// Liked Songs is listed first, as a virtual playlist next to the ones the account follows
+	async loadPlaylists(): Promise<SpotifyPlaylist[]> {
+		const likedSongs = await spotifyAPI.getPlaylist(LIKED_SONGS_ID);
+		const userPlaylists = await spotifyAPI.getUserPlaylists();
+		const loaded = [likedSongs, ...userPlaylists];
+		playlists.set(loaded);
+		return loaded;
+	}
+
+	async createPlaylist(details: PlaylistDetails): Promise<SpotifyPlaylist> {
+		const currentUser = get(user);
+		if (!currentUser) {
+			throw new Error('No user loaded');
+		}
+
+		const playlist = await spotifyAPI.createPlaylist(currentUser.id, details);
+		// New playlists go straight after Liked Songs, which stays pinned to the top
+		playlists.update((list) => {
+			const pinned = list.filter((p) => isLikedSongs(p.id));
+			return [...pinned, playlist, ...list.filter((p) => !isLikedSongs(p.id))];
+		});
+		console.log(`Created playlist "${playlist.name}" (${playlist.id})`);
+		return playlist;
+	}
+
+	async updatePlaylistDetails(
+		playlistId: string,
+		details: Partial<PlaylistDetails>
+	): Promise<void> {
+		const previousPlaylists = get(playlists);
+		const previousSelected = get(selectedPlaylist);
+		const previousTarget = get(targetPlaylist);
+
+		this.applyToPlaylistStores(playlistId, (playlist) => ({ ...playlist, ...details }));
+
+		try {
+			await spotifyAPI.updatePlaylistDetails(playlistId, details);
+			console.log(`Updated details for playlist ${playlistId}`);
+		} catch (error) {
+			console.error('Failed to update playlist details:', error);
+			playlists.set(previousPlaylists);
+			selectedPlaylist.set(previousSelected);
+			targetPlaylist.set(previousTarget);
+			throw error;
+		}
+	}
+
+	async deletePlaylist(playlistId: string): Promise<void> {
+		const previousPlaylists = get(playlists);
+		const previousSelected = get(selectedPlaylist);
+		const previousTarget = get(targetPlaylist);
+		const previousSelections = get(playlistSelections);
+
+		playlists.update((list) => list.filter((p) => p.id !== playlistId));
+
+		if (previousSelected?.id === playlistId) {
+			selectedPlaylist.set(null);
+			currentTracks.set([]);
+			originalTrackOrder.set([]);
+			playlistSelections.update((selections) => ({ ...selections, source: '' }));
+		}
+
+		if (previousTarget?.id === playlistId) {
+			targetPlaylist.set(null);
+			playlistSelections.update((selections) => ({ ...selections, target: '' }));
+		}
+
+		try {
+			await spotifyAPI.unfollowPlaylist(playlistId);
+			console.log(`Deleted playlist ${playlistId}`);
+		} catch (error) {
+			console.error('Failed to delete playlist:', error);
+			playlists.set(previousPlaylists);
+			selectedPlaylist.set(previousSelected);
+			targetPlaylist.set(previousTarget);
+			playlistSelections.set(previousSelections);
+			throw error;
+		}
+	}
+
+	async reorderTrack(playlistId: string, fromIndex: number, toIndex: number): Promise<void> {
+		if (fromIndex === toIndex) return;
+
+		const isSelected = get(selectedPlaylist)?.id === playlistId;
+		const previousTracks = get(currentTracks);
+		const previousOrder = get(originalTrackOrder);
+		const snapshotId = isSelected ? get(currentPlaylistSnapshot) : null;
+		const fromPosition = previousTracks[fromIndex]?._position ?? fromIndex;
+		const toPosition = previousTracks[toIndex]?._position ?? toIndex;
+
+		if (isSelected) {
+			currentTracks.set(moveTrackRow(previousTracks, fromIndex, toIndex, fromPosition, toPosition));
+			originalTrackOrder.set(
+				moveTrackRow(previousOrder, fromIndex, toIndex, fromPosition, toPosition)
+			);
+		}
+
+		try {
+			const { status, snapshots } = await mutationOutbox.submit(
+				`Move a track in ${this.playlistName(playlistId)}`,
+				[
+					{
+						type: 'move-in-playlist',
+						playlistId,
+						trackUri: getOperationalUri(previousTracks[fromIndex]),
+						trackId: previousTracks[fromIndex].id,
+						fromPosition,
+						toPosition,
+						snapshotId
+					}
+				]
+			);
+			const newSnapshotId = snapshots[playlistId];
+
+			if (status === 'queued' && isSelected) {
+				currentPlaylistSnapshot.set(null);
+			} else if (newSnapshotId) {
+				this.applyToPlaylistStores(playlistId, (playlist) => ({
+					...playlist,
+					snapshot_id: newSnapshotId
+				}));
+				if (isSelected) {
+					currentPlaylistSnapshot.set(newSnapshotId);
+				}
+			}
+			tabCoordinator.broadcast({ type: 'playlist-changed', playlistId });
+			console.log(`Moved item ${fromIndex} to ${toIndex} in playlist ${playlistId}`);
+		} catch (error) {
+			console.error('Failed to reorder playlist:', error);
+			if (isSelected) {
+				currentTracks.set(previousTracks);
+				originalTrackOrder.set(previousOrder);
+			}
+			throw error;
+		}
+	}
+
+	// Also hands back the tracks that went in, leaving out the ones that were already there
+	async bulkCopyTracks(
+		playlistId: string,
+		tracks: SpotifyTrack[]
+	): Promise<BulkPlaylistResult & { added: SpotifyTrack[] }> {
+		playlistBulkProgress.set({ loaded: 0, total: tracks.length });
+
+		try {
+			const { succeeded, skipped, failed } = await this.addInBatches(
+				playlistId,
+				tracks,
+				0,
+				tracks.length
+			);
+			if (succeeded.length > 0) {
+				await this.reloadSelectedTracks(playlistId);
+			}
+			return {
+				changed: succeeded.length,
+				skipped: skipped.length,
+				failed: failed.length,
+				added: succeeded
+			};
+		} finally {
+			playlistBulkProgress.set(null);
+		}
+	}
+
+	// Also hands back the removed rows, with their old positions, so callers can offer an undo.
+	// Pass the snapshot the positions belong to when the playlist is not the selected one
+	async bulkRemoveTracks(
+		playlistId: string,
+		tracks: SpotifyTrack[],
+		snapshotId?: string | null
+	): Promise<BulkPlaylistResult & { removed: SpotifyTrack[] }> {
+		playlistBulkProgress.set({ loaded: 0, total: tracks.length });
+
+		try {
+			const { succeeded, failed } = await this.removeInBatches(
+				playlistId,
+				tracks,
+				0,
+				tracks.length,
+				snapshotId
+			);
+			return { changed: succeeded.length, skipped: 0, failed: failed.length, removed: succeeded };
+		} finally {
+			playlistBulkProgress.set(null);
+		}
+	}
+
+	// The adds and removals go out as one outbox entry, so a move interrupted by a reload is finished
+	// by the replay, and one that fails for good is rolled back on both sides instead of leaving copies
+	async bulkMoveTracks(
+		fromPlaylistId: string,
+		toPlaylistId: string,
+		tracks: SpotifyTrack[]
+	): Promise<BulkPlaylistResult> {
+		if (tracks.length === 0) return { changed: 0, skipped: 0, failed: 0 };
+
+		const { pending } = await this.splitByPresence(toPlaylistId, tracks);
+		const ordered = this.highestFirst(tracks);
+		const isSelected = get(selectedPlaylist)?.id === fromPlaylistId;
+		const total = pending.length + ordered.length;
+		playlistBulkProgress.set({ loaded: 0, total });
+
+		try {
+			const { snapshots } = await this.submitBulk(
+				`Move ${tracks.length} tracks to ${this.playlistName(toPlaylistId)}`,
+				[
+					...this.addSteps(toPlaylistId, pending),
+					...this.removeSteps(
+						fromPlaylistId,
+						ordered,
+						isSelected ? get(currentPlaylistSnapshot) : null
+					)
+				],
+				0,
+				total
+			);
+			this.recordAdded(toPlaylistId, pending);
+			this.recordRemoved(fromPlaylistId, ordered, snapshots[fromPlaylistId] ?? null);
+			console.log(`Moved ${tracks.length} tracks from ${fromPlaylistId} to ${toPlaylistId}`);
+			return { changed: tracks.length, skipped: 0, failed: 0 };
+		} catch (error) {
+			if (error instanceof PlaylistConflictError) {
+				console.warn(`Playlist ${fromPlaylistId} changed remotely, the move was rolled back`);
+			} else {
+				console.error(`Failed to move ${tracks.length} tracks to ${toPlaylistId}:`, error);
+			}
+			await this.reloadSelectedTracks(fromPlaylistId);
+			return { changed: 0, skipped: 0, failed: tracks.length };
+		} finally {
+			playlistBulkProgress.set(null);
+		}
+	}
+
+	// Puts removed rows back lowest position first, so every run of neighbours lands on its old spot.
+	// The runs go out as one outbox entry: a failed run takes the earlier ones back out, so a retry
+	// sends every row again. The returned snapshot is the one the old positions hold for again
+	async bulkRestoreTracks(
+		playlistId: string,
+		tracks: SpotifyTrack[]
+	): Promise<BulkPlaylistResult & { restored: SpotifyTrack[]; snapshotId: string | null }> {
+		const ordered = [...tracks].sort(
+			(a, b) => (a._position ?? Number.MAX_SAFE_INTEGER) - (b._position ?? Number.MAX_SAFE_INTEGER)
+		);
+		const runs: SpotifyTrack[][] = [];
+		ordered.forEach((track) => {
+			const run = runs[runs.length - 1];
+			const previous = run?.[run.length - 1]._position;
+			if (run && previous !== undefined && track._position === previous + 1) {
+				run.push(track);
+			} else {
+				runs.push([track]);
+			}
+		});
+
+		const succeeded: SpotifyTrack[] = [];
+		let snapshotId: string | null = null;
+		playlistBulkProgress.set({ loaded: 0, total: tracks.length });
+
+		try {
+			const { snapshots } = await this.submitBulk(
+				`Restore ${tracks.length} tracks to ${this.playlistName(playlistId)}`,
+				runs.map((run) => ({
+					type: 'add-tracks-to-playlist',
+					playlistId,
+					items: run.map((track) => toTrackRef(track, true))
+				})),
+				0,
+				tracks.length
+			);
+			snapshotId = snapshots[playlistId] ?? null;
+			succeeded.push(...tracks);
+			tracks.forEach((track) =>
+				targetPlaylistService.addTrackToPlaylistCache(playlistId, track.id)
+			);
+		} catch (error) {
+			console.error(`Failed to restore ${tracks.length} tracks to ${playlistId}:`, error);
+		} finally {
+			playlistBulkProgress.set(null);
+		}
+
+		const failed = tracks.length - succeeded.length;
+
+		if (succeeded.length > 0) {
+			tabCoordinator.broadcast({
+				type: 'playlist-changed',
+				playlistId,
+				added: succeeded.map((track) => track.id)
+			});
+			this.recordLikedSongsChange(playlistId, succeeded, true);
+			await this.reloadSelectedTracks(playlistId);
+		}
+
+		console.log(`Restored ${succeeded.length} tracks to ${playlistId}, ${failed} failed`);
+		return {
+			changed: succeeded.length,
+			skipped: 0,
+			failed,
+			restored: succeeded,
+			snapshotId: failed === 0 ? snapshotId : null
+		};
+	}
+
+	// Brings the listed tracks to the top in the given order, moving only the rows that are out of order
+	// relative to the rest, so a playlist that is already in order costs no writes. Unlisted rows, like local
+	// files, end up after them. The moves go out as one outbox entry, so a failure halfway puts the rows back
+	async arrangeTracks(playlistId: string, ordered: SpotifyTrack[]): Promise<number> {
+		// Saved tracks are always listed newest first
+		if (isLikedSongs(playlistId)) return 0;
+
+		const loaded = await playlistCache.loadPlaylistTracks(playlistId);
+		const steps: OutboxStep[] = planReorder(loaded.tracks, ordered).map(
+			({ track, from, to }, index) => ({
+				type: 'move-in-playlist',
+				playlistId,
+				trackUri: getOperationalUri(track),
+				trackId: track.id,
+				fromPosition: from,
+				toPosition: to,
+				// Later moves carry the snapshot the previous one returned
+				...(index === 0 ? { snapshotId: loaded.snapshotId } : {})
+			})
+		);
+
+		if (steps.length === 0) {
+			console.log(`Playlist ${playlistId} is already in order`);
+			return 0;
+		}
+
+		playlistBulkProgress.set({ loaded: 0, total: steps.length });
+		try {
+			const { snapshots } = await this.submitBulk(
+				`Arrange ${this.playlistName(playlistId)}`,
+				steps,
+				0,
+				steps.length
+			);
+			const latestSnapshotId = snapshots[playlistId];
+			if (latestSnapshotId) {
+				this.applyToPlaylistStores(playlistId, (playlist) => ({
+					...playlist,
+					snapshot_id: latestSnapshotId
+				}));
+			}
+			tabCoordinator.broadcast({ type: 'playlist-changed', playlistId });
+		} finally {
+			playlistBulkProgress.set(null);
+			await this.reloadSelectedTracks(playlistId);
+		}
+
+		console.log(`Arranged playlist ${playlistId} with ${steps.length} moves`);
+		return steps.length;
+	}
+
+	private async addInBatches(
+		playlistId: string,
+		tracks: SpotifyTrack[],
+		progressOffset: number,
+		progressTotal: number
+	): Promise<BatchOutcome> {
+		const { pending, skipped } = await this.splitByPresence(playlistId, tracks);
+		const succeeded: SpotifyTrack[] = [];
+		const failed: SpotifyTrack[] = [];
+		let done = skipped.length;
+		playlistBulkProgress.set({ loaded: progressOffset + done, total: progressTotal });
+
+		// One entry per batch, so the batches that went in stay in when a later one fails
+		for (let i = 0; i < pending.length; i += PLAYLIST_WRITE_BATCH_SIZE) {
+			const batch = pending.slice(i, i + PLAYLIST_WRITE_BATCH_SIZE);
+			try {
+				await mutationOutbox.submit(
+					`Add ${batch.length} tracks to ${this.playlistName(playlistId)}`,
+					this.addSteps(playlistId, batch)
+				);
+				succeeded.push(...batch);
+			} catch (error) {
+				console.error(`Failed to add a batch of ${batch.length} tracks to ${playlistId}:`, error);
+				failed.push(...batch);
+			}
+			done += batch.length;
+			playlistBulkProgress.set({ loaded: progressOffset + done, total: progressTotal });
+		}
+
+		this.recordAdded(playlistId, succeeded);
+		console.log(
+			`Added ${succeeded.length} tracks to ${playlistId}, ${skipped.length} already there, ${failed.length} failed`
+		);
+		return { succeeded, skipped, failed };
+	}
+
+	private async removeInBatches(
+		playlistId: string,
+		tracks: SpotifyTrack[],
+		progressOffset: number,
+		progressTotal: number,
+		knownSnapshotId?: string | null
+	): Promise<BatchOutcome> {
+		if (tracks.length === 0) return { succeeded: [], skipped: [], failed: [] };
+
+		const isSelected = get(selectedPlaylist)?.id === playlistId;
+		const ordered = this.highestFirst(tracks);
+		const knownSnapshot = knownSnapshotId ?? (isSelected ? get(currentPlaylistSnapshot) : null);
+
+		try {
+			const { snapshots } = await this.submitBulk(
+				`Remove ${ordered.length} tracks from ${this.playlistName(playlistId)}`,
+				this.removeSteps(playlistId, ordered, knownSnapshot),
+				progressOffset,
+				progressTotal
+			);
+			this.recordRemoved(playlistId, ordered, snapshots[playlistId] ?? null);
+			console.log(`Removed ${ordered.length} tracks from ${playlistId}`);
+			return { succeeded: ordered, skipped: [], failed: [] };
+		} catch (error) {
+			// Positions only hold for the snapshot they came from, so nothing is sent after a conflict
+			if (error instanceof PlaylistConflictError) {
+				console.warn(`Playlist ${playlistId} changed remotely, skipping the removals`);
+			} else {
+				console.error(`Failed to remove ${ordered.length} tracks from ${playlistId}:`, error);
+			}
+			// Rolled back batches leave the rows in place but not the snapshot
+			await this.reloadSelectedTracks(playlistId);
+			return { succeeded: [], skipped: [], failed: ordered };
+		}
+	}
+
+	// Tracks already in the playlist, or listed twice, are skipped so an add never creates duplicates
+	private async splitByPresence(
+		playlistId: string,
+		tracks: SpotifyTrack[]
+	): Promise<{ pending: SpotifyTrack[]; skipped: SpotifyTrack[] }> {
+		const present = await this.findTracksInPlaylist(playlistId, tracks);
+		const seen = new Set<string>();
+		const skipped: SpotifyTrack[] = [];
+		const pending: SpotifyTrack[] = [];
+
+		tracks.forEach((track) => {
+			if (present.has(track.id) || seen.has(track.id)) {
+				skipped.push(track);
+			} else {
+				seen.add(track.id);
+				pending.push(track);
+			}
+		});
+		return { pending, skipped };
+	}
+
+	// Highest positions go first so earlier batches never shift the rows of later ones
+	private highestFirst(tracks: SpotifyTrack[]): SpotifyTrack[] {
+		return [...tracks].sort((a, b) => (b._position ?? -1) - (a._position ?? -1));
+	}
+
+	private addSteps(playlistId: string, tracks: SpotifyTrack[]): OutboxStep[] {
+		const steps: OutboxStep[] = [];
+		for (let i = 0; i < tracks.length; i += PLAYLIST_WRITE_BATCH_SIZE) {
+			steps.push({
+				type: 'add-tracks-to-playlist',
+				playlistId,
+				items: tracks.slice(i, i + PLAYLIST_WRITE_BATCH_SIZE).map((track) => toTrackRef(track))
+			});
+		}
+		return steps;
+	}
+
+	// Only the first batch is checked, later ones carry the snapshot the previous batch returned
+	private removeSteps(
+		playlistId: string,
+		ordered: SpotifyTrack[],
+		snapshotId: string | null
+	): OutboxStep[] {
+		const steps: OutboxStep[] = [];
+		for (let i = 0; i < ordered.length; i += PLAYLIST_WRITE_BATCH_SIZE) {
+			steps.push({
+				type: 'remove-tracks-from-playlist',
+				playlistId,
+				items: ordered
+					.slice(i, i + PLAYLIST_WRITE_BATCH_SIZE)
+					.map((track) => toTrackRef(track, true)),
+				...(i === 0 ? { snapshotId } : {})
+			});
+		}
+		return steps;
+	}
+
+	private recordAdded(playlistId: string, tracks: SpotifyTrack[]): void {
+		if (tracks.length === 0) return;
+
+		tracks.forEach((track) => targetPlaylistService.addTrackToPlaylistCache(playlistId, track.id));
+		tabCoordinator.broadcast({
+			type: 'playlist-changed',
+			playlistId,
+			added: tracks.map((track) => track.id)
+		});
+		this.recordLikedSongsChange(playlistId, tracks, true);
+	}
+
+	// A queued removal leaves the next snapshot unknown, so the conflict check waits for a reload
+	private recordRemoved(
+		playlistId: string,
+		tracks: SpotifyTrack[],
+		snapshotId: string | null
+	): void {
+		if (tracks.length === 0) return;
+
+		tracks.forEach((track) =>
+			targetPlaylistService.removeTrackFromPlaylistCache(playlistId, track.id)
+		);
+		if (get(selectedPlaylist)?.id === playlistId) {
+			this.removeRows(tracks);
+			currentPlaylistSnapshot.set(snapshotId);
+		}
+		tabCoordinator.broadcast({
+			type: 'playlist-changed',
+			playlistId,
+			removed: tracks.map((track) => track.id)
+		});
+		this.recordLikedSongsChange(playlistId, tracks, false);
+	}
+
+	// Moves the bulk progress bar on by each step's rows as the outbox works through them
+	private submitBulk(
+		label: string,
+		steps: OutboxStep[],
+		progressOffset: number,
+		progressTotal: number
+	): Promise<OutboxResult> {
+		let loaded = progressOffset;
+		return mutationOutbox.submit(label, steps, (step) => {
+			loaded += 'items' in step ? step.items.length : 1;
+			playlistBulkProgress.set({ loaded, total: progressTotal });
+		});
+	}
+
+	private playlistName(playlistId: string): string {
+		return get(playlists).find((playlist) => playlist.id === playlistId)?.name ?? 'playlist';
+	}
+
+	private async findTracksInPlaylist(
+		playlistId: string,
+		tracks: SpotifyTrack[]
+	): Promise<Set<string>> {
+		if (isLikedSongs(playlistId)) {
+			const ids = tracks.map((track) => track.linked_from?.id || track.id);
+			const saved = await spotifyAPI.containsSavedTracks(ids);
+			return new Set(tracks.filter((_, index) => saved[index]).map((track) => track.id));
+		}
+
+		const { tracks: existing } = await playlistCache.loadPlaylistTracks(playlistId);
+		return new Set(existing.map((track) => track.id));
+	}
+
+	private async reloadSelectedTracks(playlistId: string): Promise<void> {
+		if (get(selectedPlaylist)?.id !== playlistId) return;
+
+		try {
+			const { tracks, snapshotId } = await playlistCache.loadPlaylistTracks(playlistId);
+			currentTracks.set(tracks);
+			originalTrackOrder.set([...tracks]);
+			currentPlaylistSnapshot.set(snapshotId);
+		} catch (error) {
+			console.error(`Failed to reload tracks for playlist ${playlistId}:`, error);
+		}
+	}
+
+	// Rows are taken out from the bottom up, so each removal only renumbers rows that are staying
+	private removeRows(removed: SpotifyTrack[]): void {
+		const playingRow = get(currentTracks)[get(currentTrackIndex)];
+		const ordered = [...removed].sort((a, b) => (b._position ?? -1) - (a._position ?? -1));
+		const strip = (rows: SpotifyTrack[]) => ordered.reduce(removeTrackRow, rows);
+		const playingWasRemoved =
+			!!playingRow && removed.some((track) => isSameTrackRow(track, playingRow));
+
+		currentTracks.update(strip);
+		originalTrackOrder.update(strip);
+
+		if (playingRow && !playingWasRemoved) {
+			const position = playingRow._position;
+			const shift = ordered.filter(
+				(track) => position !== undefined && (track._position ?? -1) < position
+			).length;
+			const updatedRow = {
+				...playingRow,
+				_position: position === undefined ? undefined : position - shift
+			};
+			currentTrackIndex.set(
+				get(currentTracks).findIndex((track) => isSameTrackRow(track, updatedRow))
+			);
+		} else if (playingWasRemoved) {
+			// The playing track keeps going, it just no longer has a row to highlight
+			currentTrackIndex.set(-1);
+		}
+	}
+
+	private recordLikedSongsChange(playlistId: string, tracks: SpotifyTrack[], saved: boolean): void {
+		if (!isLikedSongs(playlistId)) return;
+
+		libraryService.recordSavedChange(
+			tracks.flatMap((track) =>
+				saved
+					? [track.linked_from?.id || track.id]
+					: [track.id, ...(track.linked_from?.id ? [track.linked_from.id] : [])]
+			),
+			saved
+		);
+	}
+
+	private applyToPlaylistStores(
+		playlistId: string,
+		fn: (playlist: SpotifyPlaylist) => SpotifyPlaylist
+	): void {
+		playlists.update((list) => list.map((p) => (p.id === playlistId ? fn(p) : p)));
+		selectedPlaylist.update((p) => (p?.id === playlistId ? fn(p) : p));
+		targetPlaylist.update((p) => (p?.id === playlistId ? fn(p) : p));
+	}
+}
+
+export const playlistService = new PlaylistService();
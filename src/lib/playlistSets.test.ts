@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { combinePlaylists } from './playlistSets';
+import type { SpotifyTrack } from './spotify';
+
+function track(id: string, extra: Partial<SpotifyTrack> = {}): SpotifyTrack {
+	return {
+		id,
+		name: `Song ${id}`,
+		artists: [{ name: 'Artist' }],
+		album: { name: 'Album', images: [] },
+		duration_ms: 180000,
+		uri: `spotify:track:${id}`,
+		...extra
+	};
+}
+
+const ids = (tracks: SpotifyTrack[]) => tracks.map((t) => t.id);
+
+const a = track('a');
+const b = track('b');
+const c = track('c');
+const d = track('d');
+
+describe('combinePlaylists', () => {
+	it('unions every song once, in source order', () => {
+		expect(
+			ids(
+				combinePlaylists(
+					[
+						[a, b],
+						[b, c]
+					],
+					'union',
+					'source'
+				)
+			)
+		).toEqual(['a', 'b', 'c']);
+	});
+
+	it('keeps only songs found in every source for an intersection', () => {
+		expect(
+			ids(
+				combinePlaylists(
+					[
+						[a, b, c],
+						[c, b],
+						[b, c, d]
+					],
+					'intersection',
+					'source'
+				)
+			)
+		).toEqual(['b', 'c']);
+	});
+
+	it('keeps the first source minus every other one for a difference', () => {
+		expect(ids(combinePlaylists([[a, b, c], [b], [c, d]], 'difference', 'source'))).toEqual(['a']);
+	});
+
+	it('keeps songs found in exactly one source for a symmetric difference', () => {
+		expect(
+			ids(
+				combinePlaylists(
+					[
+						[a, b],
+						[b, c],
+						[b, d]
+					],
+					'symmetric-difference',
+					'source'
+				)
+			)
+		).toEqual(['a', 'c', 'd']);
+	});
+
+	it('counts a relinked copy and its original as one song', () => {
+		const copy = track('a2', {
+			linked_from: { id: 'a', uri: 'spotify:track:a', external_urls: { spotify: '' } }
+		});
+
+		expect(ids(combinePlaylists([[a], [copy]], 'intersection', 'source'))).toEqual(['a']);
+		expect(ids(combinePlaylists([[a], [copy]], 'union', 'source'))).toEqual(['a']);
+	});
+
+	it('interleaves the sources row by row', () => {
+		expect(ids(combinePlaylists([[a, b, c], [d]], 'union', 'interleave'))).toEqual([
+			'a',
+			'd',
+			'b',
+			'c'
+		]);
+	});
+
+	it('orders by the earliest date any source added the song', () => {
+		const dated = (t: SpotifyTrack, date: string) => ({ ...t, _addedAt: date });
+
+		const result = combinePlaylists(
+			[
+				[dated(a, '2024-03-01T00:00:00Z'), dated(b, '2024-01-01T00:00:00Z')],
+				[dated(a, '2024-02-01T00:00:00Z'), c]
+			],
+			'union',
+			'date-added'
+		);
+
+		expect(ids(result)).toEqual(['b', 'a', 'c']);
+	});
+
+	it('leaves out local files and episodes', () => {
+		const local = track('local', { is_local: true });
+
+		expect(combinePlaylists([[local, a], [local]], 'union', 'source')).toEqual([a]);
+	});
+});
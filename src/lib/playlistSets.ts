@@ -0,0 +1,99 @@
+import { getOperationalUri } from './spotify';
+import type { SpotifyTrack } from './spotify';
+import type { SetOperation, SetOrdering } from './stores';
+import { isReadOnlyTrack } from './utils';
+
+export const SET_OPERATION_LABELS: Record<SetOperation, string> = {
+	union: 'Union',
+	intersection: 'Intersection',
+	difference: 'Difference',
+	'symmetric-difference': 'Symmetric Difference'
+};
+
+export const SET_ORDERING_LABELS: Record<SetOrdering, string> = {
+	source: 'Source order',
+	'date-added': 'Date added',
+	interleave: 'Interleave'
+};
+
+// Gives every track a song number, so a relinked copy and its original count as one track
+function createSongKeys(): (track: SpotifyTrack) => number {
+	const songByKey = new Map<string, number>();
+
+	return (track) => {
+		const keys = [`id:${track.id}`, `uri:${getOperationalUri(track)}`];
+		const known = keys.map((key) => songByKey.get(key)).find((song) => song !== undefined);
+		const song = known ?? songByKey.size;
+		keys.forEach((key) => songByKey.set(key, song));
+		return song;
+	};
+}
+
+function isInResult(operation: SetOperation, sourceIndexes: Set<number>, total: number): boolean {
+	if (operation === 'union') return true;
+	if (operation === 'intersection') return sourceIndexes.size === total;
+	if (operation === 'difference') return sourceIndexes.size === 1 && sourceIndexes.has(0);
+	// Symmetric difference over more than two playlists keeps tracks found in exactly one of them
+	return sourceIndexes.size === 1;
+}
+
+function addedTime(track: SpotifyTrack): number {
+	return track._addedAt ? Date.parse(track._addedAt) : Number.MAX_SAFE_INTEGER;
+}
+
+// Each source is one playlist's tracks in playlist order; the result holds every song once
+export function combinePlaylists(
+	sources: SpotifyTrack[][],
+	operation: SetOperation,
+	ordering: SetOrdering
+): SpotifyTrack[] {
+	const songKey = createSongKeys();
+	const rows = sources.map((tracks) =>
+		tracks
+			.filter((track) => !isReadOnlyTrack(track))
+			.map((track) => ({ track, song: songKey(track) }))
+	);
+
+	const sourcesBySong = new Map<number, Set<number>>();
+	const earliestBySong = new Map<number, SpotifyTrack>();
+	rows.forEach((sourceRows, sourceIndex) =>
+		sourceRows.forEach(({ track, song }) => {
+			const found = sourcesBySong.get(song) ?? new Set<number>();
+			found.add(sourceIndex);
+			sourcesBySong.set(song, found);
+			const earliest = earliestBySong.get(song);
+			if (!earliest || addedTime(track) < addedTime(earliest)) {
+				earliestBySong.set(song, track);
+			}
+		})
+	);
+
+	const included = new Set<number>();
+	const result: { track: SpotifyTrack; song: number }[] = [];
+	const take = (row: { track: SpotifyTrack; song: number }) => {
+		if (included.has(row.song)) return;
+		if (!isInResult(operation, sourcesBySong.get(row.song) ?? new Set(), sources.length)) return;
+		included.add(row.song);
+		result.push(row);
+	};
+
+	if (ordering === 'interleave') {
+		const longest = Math.max(0, ...rows.map((sourceRows) => sourceRows.length));
+		for (let index = 0; index < longest; index++) {
+			rows.forEach((sourceRows) => {
+				if (sourceRows[index]) take(sourceRows[index]);
+			});
+		}
+		return result.map(({ track }) => track);
+	}
+
+	rows.flat().forEach(take);
+
+	if (ordering === 'date-added') {
+		// Oldest first, dated by whichever playlist got the song first
+		const dateOf = (song: number) => addedTime(earliestBySong.get(song)!);
+		result.sort((a, b) => dateOf(a.song) - dateOf(b.song));
+	}
+
+	return result.map(({ track }) => track);
+}
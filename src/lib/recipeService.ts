@@ -0,0 +1,148 @@
+import { get } from 'svelte/store';
+import { playlists, playlistRecipes } from './stores';
+import type { PlaylistRecipe } from './stores';
+import { playlistCache } from './playlistCache';
+import { playlistService } from './playlistService';
+import type { BulkPlaylistResult } from './playlistService';
+import { combinePlaylists, SET_OPERATION_LABELS } from './playlistSets';
+import { matchKeys } from './playlistDiff';
+import { isLikedSongs } from './spotify';
+import type { SpotifyPlaylist, SpotifyTrack } from './spotify';
+
+export type RecipeDraft = Omit<PlaylistRecipe, 'id' | 'lastRunAt' | 'addedTrackIds'>;
+
+export interface RecipePlan {
+	// The combined set in the recipe's order
+	tracks: SpotifyTrack[];
+	// Null when the run has to create the destination first
+	playlist: SpotifyPlaylist | null;
+	snapshotId: string | null;
+	toAdd: SpotifyTrack[];
+	// Rows earlier runs added that are no longer part of the set
+	toRemove: SpotifyTrack[];
+}
+
+export interface RecipeRunResult extends BulkPlaylistResult {
+	playlist: SpotifyPlaylist;
+	// Rows earlier runs added that are no longer part of the combined set
+	removed: number;
+	// Size of the combined set, including tracks the destination already had
+	total: number;
+}
+
+class RecipeService {
+	save(draft: RecipeDraft): PlaylistRecipe {
+		const recipe: PlaylistRecipe = {
+			...draft,
+			id: Date.now().toString() + Math.random().toString(36).slice(2, 11),
+			lastRunAt: null
+		};
+		playlistRecipes.update(({ recipes }) => ({ recipes: [...recipes, recipe] }));
+		console.log(`Saved recipe "${recipe.name}" (${recipe.id})`);
+		return recipe;
+	}
+
+	remove(recipeId: string): void {
+		playlistRecipes.update(({ recipes }) => ({
+			recipes: recipes.filter((recipe) => recipe.id !== recipeId)
+		}));
+	}
+
+	// Works out what a run would write without writing anything, so the caller can confirm removals first
+	async plan(recipe: PlaylistRecipe): Promise<RecipePlan> {
+		const known = get(playlists);
+		const missing = recipe.sourceIds.filter((id) => !known.some((playlist) => playlist.id === id));
+		if (missing.length > 0) {
+			throw new Error(`${missing.length} of the source playlists no longer exist`);
+		}
+
+		const sources = await Promise.all(
+			recipe.sourceIds.map(
+				async (playlistId) => (await playlistCache.loadPlaylistTracks(playlistId)).tracks
+			)
+		);
+		const tracks = combinePlaylists(sources, recipe.operation, recipe.ordering);
+
+		// A destination deleted since the last run is replaced by a fresh playlist
+		const playlist =
+			known.find((p) => p.id === recipe.destinationId && !isLikedSongs(p.id)) ?? null;
+		if (!playlist) {
+			return { tracks, playlist, snapshotId: null, toAdd: tracks, toRemove: [] };
+		}
+
+		const { tracks: existing, snapshotId } = await playlistCache.loadPlaylistTracks(playlist.id);
+		const wantedKeys = new Set(tracks.flatMap(matchKeys));
+		const existingKeys = new Set(existing.flatMap(matchKeys));
+		const addedIds = new Set(recipe.addedTrackIds ?? []);
+		const toAdd = tracks.filter((track) => !matchKeys(track).some((key) => existingKeys.has(key)));
+		// Rows the recipe did not put there, like ones that were in the playlist before it, are never touched
+		const toRemove = existing.filter(
+			(track) => addedIds.has(track.id) && !matchKeys(track).some((key) => wantedKeys.has(key))
+		);
+		return { tracks, playlist, snapshotId, toAdd, toRemove };
+	}
+
+	// Only the difference is written, like a smart playlist refresh, then rows are moved into the recipe's order
+	async run(recipe: PlaylistRecipe, plan?: RecipePlan): Promise<RecipeRunResult> {
+		console.log(
+			`Running recipe "${recipe.name}": ${SET_OPERATION_LABELS[recipe.operation]} of ${recipe.sourceIds.length} playlists`
+		);
+		const planned = plan ?? (await this.plan(recipe));
+		const { tracks, snapshotId, toAdd, toRemove } = planned;
+		const known = get(playlists);
+		const playlist =
+			planned.playlist ??
+			(await playlistService.createPlaylist({
+				name: recipe.name,
+				description: `${SET_OPERATION_LABELS[recipe.operation]} of ${recipe.sourceIds
+					.map((id) => known.find((p) => p.id === id)?.name)
+					.join(', ')}`
+			}));
+
+		const removed =
+			toRemove.length > 0
+				? await playlistService.bulkRemoveTracks(playlist.id, toRemove, snapshotId)
+				: { changed: 0, failed: 0, removed: [] };
+		const added =
+			toAdd.length > 0
+				? await playlistService.bulkCopyTracks(playlist.id, toAdd)
+				: { changed: 0, failed: 0, added: [] };
+
+		// Tracks added to a playlist that has since been replaced say nothing about the new one
+		const previousIds = playlist.id === recipe.destinationId ? (recipe.addedTrackIds ?? []) : [];
+		const removedIds = new Set(removed.removed.map((track) => track.id));
+		const addedTrackIds = [
+			...new Set([
+				...previousIds.filter((id) => !removedIds.has(id)),
+				...added.added.map((track) => track.id)
+			])
+		];
+		playlistRecipes.update(({ recipes }) => ({
+			recipes: recipes.map((saved) =>
+				saved.id === recipe.id
+					? {
+							...saved,
+							destinationId: playlist.id,
+							addedTrackIds,
+							lastRunAt: new Date().toISOString()
+						}
+					: saved
+			)
+		}));
+		await playlistService.arrangeTracks(playlist.id, tracks);
+
+		console.log(
+			`Recipe "${recipe.name}" wrote ${tracks.length} tracks to ${playlist.id}: +${added.changed} -${removed.changed}`
+		);
+		return {
+			changed: added.changed,
+			skipped: tracks.length - toAdd.length,
+			failed: added.failed + removed.failed,
+			removed: removed.changed,
+			playlist,
+			total: tracks.length
+		};
+	}
+}
+
+export const recipeService = new RecipeService();
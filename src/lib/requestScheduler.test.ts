@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { parseRetryAfter } from './requestScheduler';
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+	return new Response(null, { status, headers });
+}
+
+describe('parseRetryAfter', () => {
+	it('reads seconds', () => {
+		expect(parseRetryAfter('3')).toBe(3000);
+	});
+
+	it('reads an HTTP date relative to now', () => {
+		vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+		expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT')).toBe(5000);
+		vi.useRealTimers();
+	});
+
+	it('falls back to a second for a missing or unreadable header', () => {
+		expect(parseRetryAfter(null)).toBe(1000);
+		expect(parseRetryAfter('soon')).toBe(1000);
+	});
+});
+
+describe('requestScheduler', () => {
+	let requestScheduler: (typeof import('./requestScheduler'))['requestScheduler'];
+	let requestQueueState: (typeof import('./stores'))['requestQueueState'];
+
+	// The scheduler is a singleton, so each test gets a fresh one without a throttle left over
+	beforeEach(async () => {
+		vi.resetModules();
+		({ requestScheduler } = await import('./requestScheduler'));
+		({ requestQueueState } = await import('./stores'));
+		vi.useFakeTimers();
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('runs at most four requests at a time', async () => {
+		const releases: (() => void)[] = [];
+		const execute = vi.fn(
+			() => new Promise<Response>((resolve) => releases.push(() => resolve(respond(200))))
+		);
+
+		const requests = Array.from({ length: 6 }, () => requestScheduler.schedule(execute));
+		expect(execute).toHaveBeenCalledTimes(4);
+		expect(get(requestQueueState)).toMatchObject({ active: 4, queued: 2 });
+
+		releases.shift()!();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(execute).toHaveBeenCalledTimes(5);
+
+		while (releases.length > 0) {
+			releases.shift()!();
+			await vi.advanceTimersByTimeAsync(0);
+		}
+		await Promise.all(requests);
+		expect(execute).toHaveBeenCalledTimes(6);
+		expect(get(requestQueueState)).toMatchObject({ active: 0, queued: 0 });
+	});
+
+	it('holds every request back until Retry-After has passed after a 429', async () => {
+		const limited = vi
+			.fn()
+			.mockResolvedValueOnce(respond(429, { 'Retry-After': '2' }))
+			.mockResolvedValue(respond(200));
+		const other = vi.fn().mockResolvedValue(respond(200));
+
+		const first = requestScheduler.schedule(limited);
+		await vi.advanceTimersByTimeAsync(0);
+		const second = requestScheduler.schedule(other);
+		expect(get(requestQueueState).isThrottled).toBe(true);
+		expect(other).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(2000);
+		expect((await first).status).toBe(200);
+		expect((await second).status).toBe(200);
+		expect(limited).toHaveBeenCalledTimes(2);
+	});
+
+	it('retries server errors and dropped connections on retryable requests', async () => {
+		const execute = vi
+			.fn()
+			.mockResolvedValueOnce(respond(503))
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockResolvedValue(respond(200));
+
+		const request = requestScheduler.schedule(execute);
+		await vi.advanceTimersByTimeAsync(10000);
+
+		expect((await request).status).toBe(200);
+		expect(execute).toHaveBeenCalledTimes(3);
+	});
+
+	it('hands a server error or dropped connection straight back on writes that must not be resent', async () => {
+		const serverError = vi.fn().mockResolvedValue(respond(502));
+		const dropped = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+		expect((await requestScheduler.schedule(serverError, { retryable: false })).status).toBe(502);
+		await expect(requestScheduler.schedule(dropped, { retryable: false })).rejects.toThrow(
+			'Failed to fetch'
+		);
+		expect(serverError).toHaveBeenCalledTimes(1);
+		expect(dropped).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,153 @@
+import { requestQueueState } from './stores';
+
+interface ScheduledRequest {
+	execute: () => Promise<Response>;
+	resolve: (response: Response) => void;
+	reject: (error: unknown) => void;
+	attempt: number;
+	retryable: boolean;
+}
+
+export interface ScheduleOptions {
+	// Server errors and dropped connections may hide a write that already landed, so only retry idempotent calls
+	retryable?: boolean;
+}
+
+const MAX_CONCURRENT_REQUESTS = 4;
+const MAX_RETRIES = 4;
+const MAX_RATE_LIMIT_RETRIES = 10;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+export function parseRetryAfter(header: string | null): number {
+	if (!header) return DEFAULT_RETRY_AFTER_MS;
+
+	const seconds = Number(header);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const retryDate = Date.parse(header);
+	if (!Number.isNaN(retryDate)) {
+		return Math.max(0, retryDate - Date.now());
+	}
+
+	return DEFAULT_RETRY_AFTER_MS;
+}
+
+function getBackoffDelay(attempt: number): number {
+	const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+	return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function isNetworkError(error: unknown): boolean {
+	return error instanceof TypeError;
+}
+
+class RequestScheduler {
+	private queue: ScheduledRequest[] = [];
+	private activeCount = 0;
+	private waitingCount = 0;
+	private throttledUntil = 0;
+	private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+	schedule(execute: () => Promise<Response>, options: ScheduleOptions = {}): Promise<Response> {
+		return new Promise((resolve, reject) => {
+			this.queue.push({
+				execute,
+				resolve,
+				reject,
+				attempt: 0,
+				retryable: options.retryable ?? true
+			});
+			this.drain();
+		});
+	}
+
+	private drain(): void {
+		const remainingThrottle = this.throttledUntil - Date.now();
+
+		if (remainingThrottle > 0) {
+			this.scheduleWake(remainingThrottle);
+		} else {
+			while (this.activeCount < MAX_CONCURRENT_REQUESTS && this.queue.length > 0) {
+				this.run(this.queue.shift()!);
+			}
+		}
+
+		this.publishState();
+	}
+
+	private async run(request: ScheduledRequest): Promise<void> {
+		this.activeCount++;
+		request.attempt++;
+
+		try {
+			const response = await request.execute();
+
+			if (response.status === 429 && request.attempt <= MAX_RATE_LIMIT_RETRIES) {
+				const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+				console.warn(`Rate limited by Spotify, pausing requests for ${retryAfterMs}ms`);
+				this.throttle(retryAfterMs);
+				this.queue.unshift(request);
+				return;
+			}
+
+			if (response.status >= 500 && request.retryable && request.attempt <= MAX_RETRIES) {
+				const delay = getBackoffDelay(request.attempt);
+				console.warn(`Spotify server error ${response.status}, retrying in ${delay}ms`);
+				this.retryLater(request, delay);
+				return;
+			}
+
+			request.resolve(response);
+		} catch (error) {
+			if (isNetworkError(error) && request.retryable && request.attempt <= MAX_RETRIES) {
+				const delay = getBackoffDelay(request.attempt);
+				console.warn(`Network error, retrying in ${delay}ms:`, error);
+				this.retryLater(request, delay);
+				return;
+			}
+
+			request.reject(error);
+		} finally {
+			this.activeCount--;
+			this.drain();
+		}
+	}
+
+	private retryLater(request: ScheduledRequest, delay: number): void {
+		this.waitingCount++;
+		setTimeout(() => {
+			this.waitingCount--;
+			this.queue.unshift(request);
+			this.drain();
+		}, delay);
+	}
+
+	private throttle(durationMs: number): void {
+		this.throttledUntil = Math.max(this.throttledUntil, Date.now() + durationMs);
+	}
+
+	private scheduleWake(delay: number): void {
+		if (this.wakeTimer) return;
+
+		this.wakeTimer = setTimeout(() => {
+			this.wakeTimer = null;
+			this.drain();
+		}, delay);
+	}
+
+	private publishState(): void {
+		const isThrottled = this.throttledUntil > Date.now();
+		requestQueueState.set({
+			queued: this.queue.length + this.waitingCount,
+			active: this.activeCount,
+			isThrottled,
+			throttledUntil: isThrottled ? this.throttledUntil : null
+		});
+	}
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,39 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync, rmSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { AccountTokens, TokenStore } from '../tokenStore';
+
+// Keeps tokens for headless jobs in a JSON file that is only readable by the current user
+export class JsonFileTokenStore implements TokenStore {
+	constructor(private filePath: string) {}
+
+	load(): AccountTokens | null {
+		try {
+			const tokens = JSON.parse(readFileSync(this.filePath, 'utf8')) as Partial<AccountTokens>;
+			if (!tokens.accessToken) return null;
+
+			return {
+				accessToken: tokens.accessToken,
+				refreshToken: tokens.refreshToken ?? null,
+				expiresAt: tokens.expiresAt ?? 0
+			};
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				console.warn(`Failed to read tokens from ${this.filePath}:`, error);
+			}
+			return null;
+		}
+	}
+
+	save(tokens: AccountTokens): void {
+		mkdirSync(dirname(this.filePath), { recursive: true });
+
+		// Write then rename, so a crash mid-write never leaves a truncated file behind
+		const tempPath = `${this.filePath}.tmp`;
+		writeFileSync(tempPath, JSON.stringify(tokens, null, '\t'), { mode: 0o600 });
+		renameSync(tempPath, this.filePath);
+	}
+
+	clear(): void {
+		rmSync(this.filePath, { force: true });
+	}
+}
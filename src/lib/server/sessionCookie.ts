@@ -0,0 +1,91 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import type { Cookies } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { env as publicEnv } from '$env/dynamic/public';
+import type { AccountTokens } from '../tokenStore';
+
+const SESSION_COOKIE_PREFIX = 'motify_session_';
+const OAUTH_COOKIE = 'motify_oauth';
+const SESSION_MAX_AGE_S = 60 * 60 * 24 * 30;
+const OAUTH_MAX_AGE_S = 60 * 10;
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+
+export interface PendingLogin {
+	codeVerifier: string;
+	state: string;
+}
+
+export function isServerSessionEnabled(): boolean {
+	return publicEnv.PUBLIC_SPOTIFY_AUTH_MODE === 'server' && !!env.MOTIFY_SESSION_SECRET;
+}
+
+function getKey(): Buffer {
+	if (!env.MOTIFY_SESSION_SECRET) {
+		throw new Error('MOTIFY_SESSION_SECRET is not configured');
+	}
+	return createHash('sha256').update(env.MOTIFY_SESSION_SECRET).digest();
+}
+
+// AES-256-GCM, so a tampered cookie fails to decrypt instead of yielding altered tokens
+function seal(value: unknown): string {
+	const iv = randomBytes(IV_BYTES);
+	const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+	const encrypted = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+	return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+function unseal<T>(sealed: string | undefined): T | null {
+	if (!sealed) return null;
+
+	try {
+		const data = Buffer.from(sealed, 'base64url');
+		const iv = data.subarray(0, IV_BYTES);
+		const authTag = data.subarray(IV_BYTES, IV_BYTES + AUTH_TAG_BYTES);
+		const encrypted = data.subarray(IV_BYTES + AUTH_TAG_BYTES);
+
+		const decipher = createDecipheriv('aes-256-gcm', getKey(), iv);
+		decipher.setAuthTag(authTag);
+		const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+		return JSON.parse(decrypted.toString('utf8'));
+	} catch (error) {
+		console.warn('Discarding session cookie that could not be decrypted:', error);
+		return null;
+	}
+}
+
+function sessionCookieName(userId: string): string {
+	return SESSION_COOKIE_PREFIX + userId.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+export function readSession(cookies: Cookies, userId: string): AccountTokens | null {
+	return unseal<AccountTokens>(cookies.get(sessionCookieName(userId)));
+}
+
+export function writeSession(cookies: Cookies, userId: string, tokens: AccountTokens): void {
+	cookies.set(sessionCookieName(userId), seal(tokens), {
+		path: '/api',
+		httpOnly: true,
+		sameSite: 'lax',
+		maxAge: SESSION_MAX_AGE_S
+	});
+}
+
+export function clearSession(cookies: Cookies, userId: string): void {
+	cookies.delete(sessionCookieName(userId), { path: '/api' });
+}
+
+export function readPendingLogin(cookies: Cookies): PendingLogin | null {
+	const pending = unseal<PendingLogin>(cookies.get(OAUTH_COOKIE));
+	cookies.delete(OAUTH_COOKIE, { path: '/api/auth' });
+	return pending;
+}
+
+export function writePendingLogin(cookies: Cookies, pending: PendingLogin): void {
+	cookies.set(OAUTH_COOKIE, seal(pending), {
+		path: '/api/auth',
+		httpOnly: true,
+		sameSite: 'lax',
+		maxAge: OAUTH_MAX_AGE_S
+	});
+}
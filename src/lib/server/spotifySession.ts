@@ -0,0 +1,53 @@
+import type { Cookies } from '@sveltejs/kit';
+import { env } from '$env/dynamic/public';
+import {
+	TokenRequestRejectedError,
+	isExpiring,
+	requestToken,
+	toAccountTokens
+} from '../tokenStore';
+import type { AccountTokens } from '../tokenStore';
+import { clearSession, readSession, writeSession } from './sessionCookie';
+
+export const CLIENT_ID = env.PUBLIC_SPOTIFY_CLIENT_ID || '';
+
+// Hands out the cookie's access token, refreshing it first when it is about to expire or was rejected.
+// A rejected token that the cookie no longer holds was already replaced by an earlier request, so the
+// refresh token is not rotated again. Pass null when the caller can't say which token was rejected
+export async function getSessionTokens(
+	cookies: Cookies,
+	userId: string,
+	staleToken?: string | null
+): Promise<AccountTokens | null> {
+	const tokens = readSession(cookies, userId);
+	if (!tokens) return null;
+
+	const wasRejected =
+		staleToken !== undefined && (staleToken === null || staleToken === tokens.accessToken);
+	if (!wasRejected && !isExpiring(tokens)) {
+		return tokens;
+	}
+
+	if (!tokens.refreshToken) {
+		clearSession(cookies, userId);
+		return null;
+	}
+
+	try {
+		const data = await requestToken({
+			grant_type: 'refresh_token',
+			refresh_token: tokens.refreshToken,
+			client_id: CLIENT_ID
+		});
+		const refreshed = toAccountTokens(data, tokens.refreshToken);
+		writeSession(cookies, userId, refreshed);
+		return refreshed;
+	} catch (error) {
+		if (error instanceof TokenRequestRejectedError) {
+			console.warn(`Spotify rejected the refresh token for ${userId}, ending session`);
+			clearSession(cookies, userId);
+			return null;
+		}
+		throw error;
+	}
+}
@@ -0,0 +1,208 @@
+import { get } from 'svelte/store';
+import { user, playlists, smartPlaylists, userLibrary } from './stores';
+import type { SmartPlaylistDefinition, SmartPlaylistRules } from './stores';
+import { isLikedSongs, isPlaylistOwned } from './spotify';
+import type { SpotifyPlaylist, SpotifyTrack } from './spotify';
+import { playlistCache } from './playlistCache';
+import { playlistService } from './playlistService';
+import { libraryService } from './libraryService';
+import { combinePlaylists } from './playlistSets';
+import { matchKeys } from './playlistDiff';
+import { isReadOnlyTrack, isTrackPlayable } from './utils';
+
+export type SmartPlaylistDraft = Omit<
+	SmartPlaylistDefinition,
+	'id' | 'playlistId' | 'lastRefreshedAt'
+>;
+
+export interface SmartPlaylistPreview {
+	tracks: SpotifyTrack[];
+	// Rows the destination is missing, and rows it holds that no longer match
+	toAdd: SpotifyTrack[];
+	toRemove: SpotifyTrack[];
+}
+
+export interface SmartPlaylistRefreshResult {
+	playlist: SpotifyPlaylist;
+	added: number;
+	removed: number;
+	failed: number;
+}
+
+export const DEFAULT_SMART_PLAYLIST_RULES: SmartPlaylistRules = {
+	includeArtists: [],
+	excludeArtists: [],
+	addedAfter: '',
+	addedBefore: '',
+	minDurationSeconds: null,
+	maxDurationSeconds: null,
+	liked: 'any',
+	playableOnly: false,
+	excludePlaylistIds: []
+};
+
+function hasArtist(track: SpotifyTrack, names: string[]): boolean {
+	const wanted = names.map((name) => name.trim().toLowerCase()).filter(Boolean);
+	return track.artists.some((artist) => wanted.includes(artist.name.toLowerCase()));
+}
+
+function isAddedInRange(track: SpotifyTrack, rules: SmartPlaylistRules): boolean {
+	if (!rules.addedAfter && !rules.addedBefore) return true;
+	if (!track._addedAt) return false;
+
+	// Both bounds are whole days, compared on the YYYY-MM-DD prefix of the timestamp
+	const addedDay = track._addedAt.slice(0, 10);
+	return (
+		(!rules.addedAfter || addedDay >= rules.addedAfter) &&
+		(!rules.addedBefore || addedDay < rules.addedBefore)
+	);
+}
+
+function isDurationInRange(track: SpotifyTrack, rules: SmartPlaylistRules): boolean {
+	const seconds = track.duration_ms / 1000;
+	return (
+		(rules.minDurationSeconds === null || seconds >= rules.minDurationSeconds) &&
+		(rules.maxDurationSeconds === null || seconds <= rules.maxDurationSeconds)
+	);
+}
+
+class SmartPlaylistService {
+	save(draft: SmartPlaylistDraft, definitionId?: string): SmartPlaylistDefinition {
+		const existing = get(smartPlaylists).definitions.find((d) => d.id === definitionId);
+		const definition: SmartPlaylistDefinition = existing
+			? { ...existing, ...draft }
+			: {
+					...draft,
+					id: Date.now().toString() + Math.random().toString(36).slice(2, 11),
+					playlistId: '',
+					lastRefreshedAt: null
+				};
+
+		smartPlaylists.update(({ definitions }) => ({
+			definitions: existing
+				? definitions.map((d) => (d.id === definition.id ? definition : d))
+				: [...definitions, definition]
+		}));
+		console.log(`Saved smart playlist "${definition.name}" (${definition.id})`);
+		return definition;
+	}
+
+	remove(definitionId: string): void {
+		smartPlaylists.update(({ definitions }) => ({
+			definitions: definitions.filter((d) => d.id !== definitionId)
+		}));
+	}
+
+	async preview(
+		definition: SmartPlaylistDefinition | SmartPlaylistDraft
+	): Promise<SmartPlaylistPreview> {
+		const tracks = await this.collectTracks(definition);
+		const playlistId = 'playlistId' in definition ? definition.playlistId : '';
+		const existing = this.findDestination(playlistId)
+			? (await playlistCache.loadPlaylistTracks(playlistId)).tracks
+			: [];
+
+		const wantedKeys = new Set(tracks.flatMap(matchKeys));
+		const existingKeys = new Set(existing.flatMap(matchKeys));
+		return {
+			tracks,
+			toAdd: tracks.filter((track) => !matchKeys(track).some((key) => existingKeys.has(key))),
+			// Local files and episodes never match the rules, but they were put there by hand
+			toRemove: existing.filter(
+				(track) => !isReadOnlyTrack(track) && !matchKeys(track).some((key) => wantedKeys.has(key))
+			)
+		};
+	}
+
+	// Only the difference is written, so unchanged rows keep their position and date added
+	async refresh(definition: SmartPlaylistDefinition): Promise<SmartPlaylistRefreshResult> {
+		const { toAdd, toRemove } = await this.preview(definition);
+		const playlist =
+			this.findDestination(definition.playlistId) ??
+			(await playlistService.createPlaylist({
+				name: definition.name,
+				description: 'Smart playlist, refreshed from its rules in Motify'
+			}));
+
+		const removed =
+			toRemove.length > 0
+				? await playlistService.bulkRemoveTracks(playlist.id, toRemove)
+				: { changed: 0, failed: 0 };
+		const added =
+			toAdd.length > 0
+				? await playlistService.bulkCopyTracks(playlist.id, toAdd)
+				: { changed: 0, failed: 0 };
+
+		smartPlaylists.update(({ definitions }) => ({
+			definitions: definitions.map((d) =>
+				d.id === definition.id
+					? { ...d, playlistId: playlist.id, lastRefreshedAt: new Date().toISOString() }
+					: d
+			)
+		}));
+
+		console.log(
+			`Refreshed smart playlist "${definition.name}": +${added.changed} -${removed.changed}, ${added.failed + removed.failed} failed`
+		);
+		return {
+			playlist,
+			added: added.changed,
+			removed: removed.changed,
+			failed: added.failed + removed.failed
+		};
+	}
+
+	// A destination that was deleted, or is no longer ours to edit, gets replaced on the next refresh
+	private findDestination(playlistId: string): SpotifyPlaylist | undefined {
+		const playlist = get(playlists).find((p) => p.id === playlistId);
+		return playlist && !isLikedSongs(playlist.id) && isPlaylistOwned(playlist, get(user)?.id)
+			? playlist
+			: undefined;
+	}
+
+	private async collectTracks(
+		definition: SmartPlaylistDefinition | SmartPlaylistDraft
+	): Promise<SpotifyTrack[]> {
+		const { rules } = definition;
+		const loadTracks = async (playlistId: string) =>
+			(await playlistCache.loadPlaylistTracks(playlistId)).tracks;
+
+		const sources = await Promise.all(definition.sourceIds.map(loadTracks));
+		const excluded = await Promise.all(rules.excludePlaylistIds.map(loadTracks));
+		const excludedKeys = new Set(excluded.flat().flatMap(matchKeys));
+
+		let tracks = combinePlaylists(sources, 'union', 'source').filter(
+			(track) =>
+				(rules.includeArtists.length === 0 || hasArtist(track, rules.includeArtists)) &&
+				!hasArtist(track, rules.excludeArtists) &&
+				isAddedInRange(track, rules) &&
+				isDurationInRange(track, rules) &&
+				(!rules.playableOnly || isTrackPlayable(track)) &&
+				!matchKeys(track).some((key) => excludedKeys.has(key))
+		);
+
+		if (rules.liked !== 'any') {
+			// An unloaded library would read as nothing liked and empty the destination on refresh
+			if (!libraryService.hasLoadedLibrary()) {
+				await libraryService.loadUserLibrary();
+			}
+			if (!libraryService.hasLoadedLibrary()) {
+				throw new Error(
+					'Your liked songs could not be loaded, so the liked rule cannot be applied'
+				);
+			}
+			await libraryService.ensureMembershipKnown(tracks);
+			const library = get(userLibrary);
+			const wantLiked = rules.liked === 'liked';
+			tracks = tracks.filter(
+				(track) =>
+					(library.has(track.id) ||
+						(!!track.linked_from?.id && library.has(track.linked_from.id))) === wantLiked
+			);
+		}
+
+		return tracks;
+	}
+}
+
+export const smartPlaylistService = new SmartPlaylistService();
@@ -1,26 +1,13 @@
-import { env } from '$env/dynamic/public';
-import { browser } from '$app/environment';
-
-const CLIENT_ID = env.PUBLIC_SPOTIFY_CLIENT_ID || '';
-const getRedirectUri = (): string => {
-	if (browser) {
-		return `${window.location.origin}/callback`;
-	}
-	return env.PUBLIC_SPOTIFY_REDIRECT_URI || 'http://127.0.0.1:8181/callback';
-};
-const SCOPES = [
-	'streaming',
-	'user-read-email',
-	'user-read-private',
-	'user-read-playback-state',
-	'user-library-read',
-	'user-library-modify',
-	'user-modify-playback-state',
-	'playlist-read-private',
-	'playlist-read-collaborative',
-	'playlist-modify-public',
-	'playlist-modify-private'
-];
+import { requestScheduler } from './requestScheduler';
+import type { TokenProvider } from './tokenStore';
+import {
+	PlaylistConflictError,
+	SpotifyAuthError,
+	SpotifyForbiddenError,
+	SpotifyNetworkError,
+	SpotifyNotFoundError,
+	createSpotifyApiError
+} from './spotifyErrors';
 
 export interface SpotifyTrack {
 	id: string;
@@ -41,8 +28,73 @@ export interface SpotifyTrack {
 			spotify: string;
 		};
 	};
+	type?: 'track' | 'episode';
+	is_local?: boolean;
 	_isInLibrary?: boolean;
 	_isInTargetPlaylist?: boolean;
+	_position?: number;
+	_addedAt?: string | null;
+	_addedBy?: string | null;
+}
+
+export interface SpotifyEpisode {
+	type: 'episode';
+	id: string;
+	name: string;
+	uri: string;
+	duration_ms: number;
+	images?: { url: string }[];
+	show?: { name: string; images: { url: string }[] };
+	is_playable?: boolean;
+}
+
+export interface SpotifyPlaylistItem {
+	added_at: string | null;
+	// Saved-track items from /me/tracks carry neither of these
+	added_by?: { id: string } | null;
+	is_local?: boolean;
+	track: SpotifyTrack | SpotifyEpisode | null;
+}
+
+export function playlistItemToTrack(item: SpotifyPlaylistItem, position: number): SpotifyTrack | null {
+	if (!item.track) return null;
+
+	const metadata = {
+		is_local: item.is_local ?? false,
+		_position: position,
+		_addedAt: item.added_at,
+		_addedBy: item.added_by?.id ?? null
+	};
+
+	if (item.track.type === 'episode') {
+		const episode = item.track as SpotifyEpisode;
+		return {
+			id: episode.id,
+			name: episode.name,
+			uri: episode.uri,
+			duration_ms: episode.duration_ms,
+			type: 'episode',
+			is_playable: episode.is_playable,
+			artists: [{ name: episode.show?.name || 'Podcast' }],
+			album: {
+				name: episode.show?.name || '',
+				images: episode.images || episode.show?.images || []
+			},
+			...metadata
+		};
+	}
+
+	return { ...(item.track as SpotifyTrack), type: 'track', ...metadata };
+}
+
+export interface PlaylistItemRef {
+	uri: string;
+	position?: number;
+}
+
+export interface RemoveTrackOptions {
+	position?: number;
+	snapshotId?: string | null;
 }
 
 export function getOperationalUri(track: SpotifyTrack): string {
@@ -64,237 +116,173 @@ export interface SpotifyPlaylist {
 	images: { url: string }[];
 	snapshot_id: string;
 	uri?: string;
+	public?: boolean | null;
+	collaborative?: boolean;
 	owner?: {
 		id: string;
 		display_name: string;
 	};
 }
 
-export interface SpotifyUser {
-	id: string;
-	display_name: string;
-	images: { url: string }[];
+export interface PlaylistDetails {
+	name: string;
+	description?: string;
+	public?: boolean;
+	collaborative?: boolean;
 }
 
-class SpotifyAPI {
-	private accessToken: string | null = null;
-	private codeVerifier: string | null = null;
-
-	constructor() {
-		if (typeof window !== 'undefined') {
-			this.accessToken = localStorage.getItem('spotify_access_token');
-		}
-	}
+export interface SpotifyPage<T> {
+	items: T[];
+	next: string | null;
+	total?: number;
+	offset?: number;
+}
 
-	private generateCodeVerifier(): string {
-		const array = new Uint8Array(32);
-		crypto.getRandomValues(array);
-		return btoa(String.fromCharCode.apply(null, Array.from(array)))
-			.replace(/\+/g, '-')
-			.replace(/\//g, '_')
-			.replace(/=+$/, '');
-	}
+export interface PlaylistTracksPage {
+	tracks: SpotifyTrack[];
+	loaded: number;
+	total: number;
+}
 
-	private async generateCodeChallenge(verifier: string): Promise<string> {
-		const encoder = new TextEncoder();
-		const data = encoder.encode(verifier);
-		const digest = await crypto.subtle.digest('SHA-256', data);
-		return btoa(String.fromCharCode.apply(null, Array.from(new Uint8Array(digest))))
-			.replace(/\+/g, '-')
-			.replace(/\//g, '_')
-			.replace(/=+$/, '');
-	}
+export interface SavedTrackEntry {
+	id: string;
+	// The originally saved ID when Spotify relinked the track for the user's market
+	linkedFromId: string | null;
+	addedAt: string;
+}
 
-	async getAuthUrl(): Promise<string> {
-		this.codeVerifier = this.generateCodeVerifier();
-		const codeChallenge = await this.generateCodeChallenge(this.codeVerifier);
+export interface SavedTracksPage {
+	entries: SavedTrackEntry[];
+	total: number;
+}
 
-		if (typeof window !== 'undefined') {
-			localStorage.setItem('spotify_code_verifier', this.codeVerifier);
-		}
+export interface SpotifyUser {
+	id: string;
+	display_name: string;
+	images: { url: string }[];
+}
 
-		const params = new URLSearchParams({
-			client_id: CLIENT_ID,
-			response_type: 'code',
-			redirect_uri: getRedirectUri(),
-			scope: SCOPES.join(' '),
-			code_challenge_method: 'S256',
-			code_challenge: codeChallenge,
-			show_dialog: 'true'
-		});
+const SAVED_TRACK_FIELDS = 'items(added_at,track(id,linked_from(id)))';
+const TRACK_FIELDS = 'type,id,name,artists(name),album(name,images),duration_ms,uri,preview_url,is_playable,restrictions,available_markets,linked_from(id,uri,external_urls),images,show(name,images)';
 
-		return `https://accounts.spotify.com/authorize?${params.toString()}`;
-	}
+// Liked Songs has no playlist ID, so this stands in for it wherever the UI expects a playlist
+export const LIKED_SONGS_ID = 'liked-songs';
 
-	async exchangeCodeForToken(code: string): Promise<string> {
-		const storedVerifier = localStorage.getItem('spotify_code_verifier');
-		if (!storedVerifier) {
-			throw new Error('Code verifier not found');
-		}
+export function isLikedSongs(playlistId: string | null | undefined): boolean {
+	return playlistId === LIKED_SONGS_ID;
+}
 
-		const response = await fetch('https://accounts.spotify.com/api/token', {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/x-www-form-urlencoded',
-			},
-			body: new URLSearchParams({
-				grant_type: 'authorization_code',
-				code: code,
-				redirect_uri: getRedirectUri(),
-				client_id: CLIENT_ID,
-				code_verifier: storedVerifier
-			})
-		});
+// Liked Songs belongs to whoever is logged in, so it counts as owned for editing purposes
+export function isPlaylistOwned(playlist: SpotifyPlaylist | null | undefined, userId: string | null | undefined): boolean {
+	if (!playlist || !userId) return false;
+	return isLikedSongs(playlist.id) || playlist.owner?.id === userId;
+}
 
-		if (!response.ok) {
-			const error = await response.text();
-			throw new Error(`Token exchange failed: ${error}`);
-		}
+function likedSongsPlaylist(total: number): SpotifyPlaylist {
+	return {
+		id: LIKED_SONGS_ID,
+		name: 'Liked Songs',
+		description: 'Tracks saved to your library',
+		tracks: { total, items: [] },
+		images: [],
+		snapshot_id: ''
+	};
+}
 
-		const data = await response.json();
+export function trackIdFromUri(trackUri: string): string {
+	return trackUri.split(':').pop() || trackUri;
+}
 
-		this.setAccessToken(data.access_token);
-		if (data.refresh_token) {
-			localStorage.setItem('spotify_refresh_token', data.refresh_token);
-		}
+function toSavedTrackEntries(items: any[]): SavedTrackEntry[] {
+	return items
+		.filter((item) => item.track?.id)
+		.map((item) => ({
+			id: item.track.id,
+			linkedFromId: item.track.linked_from?.id ?? null,
+			addedAt: item.added_at
+		}));
+}
 
-		const expiresAt = Date.now() + (data.expires_in * 1000);
-		localStorage.setItem('spotify_token_expires_at', expiresAt.toString());
-		
-		localStorage.removeItem('spotify_code_verifier');
-		return data.access_token;
-	}
+export interface SpotifyAPIOptions {
+	tokens?: TokenProvider;
+	fetch?: typeof fetch;
+	baseUrl?: string;
+}
 
-	setAccessToken(token: string): void {
-		this.accessToken = token;
-		if (typeof window !== 'undefined') {
-			localStorage.setItem('spotify_access_token', token);
-		}
-	}
+interface RequestOptions extends RequestInit {
+	// Defaults to true for GET and PUT only; set false for a PUT that is not safe to repeat
+	retryable?: boolean;
+}
 
-	getAccessToken(): string | null {
-		return this.accessToken;
-	}
+const DEFAULT_BASE_URL = 'https://api.spotify.com/v1';
 
-	isTokenExpired(): boolean {
-		const expiresAt = localStorage.getItem('spotify_token_expires_at');
-		if (!expiresAt) return true;
-		
-		return Date.now() >= parseInt(expiresAt);
+// Resolved lazily so headless callers that inject their own tokens never load the browser session
+const browserTokenProvider: TokenProvider = {
+	async getValidToken() {
+		const { authSession } = await import('./authSession');
+		return authSession.getValidToken();
+	},
+	async handleUnauthorized(rejectedToken) {
+		const { authSession } = await import('./authSession');
+		return authSession.handleUnauthorized(rejectedToken);
 	}
+};
 
-	async refreshAccessToken(): Promise<string> {
-		const refreshToken = localStorage.getItem('spotify_refresh_token');
-		if (!refreshToken) {
-			throw new Error('No refresh token available');
-		}
-
-		const response = await fetch('https://accounts.spotify.com/api/token', {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/x-www-form-urlencoded',
-			},
-			body: new URLSearchParams({
-				grant_type: 'refresh_token',
-				refresh_token: refreshToken,
-				client_id: CLIENT_ID
-			})
-		});
-
-		if (!response.ok) {
-			const error = await response.text();
-			throw new Error(`Token refresh failed: ${error}`);
-		}
-
-		const data = await response.json();
-
-		this.setAccessToken(data.access_token);
+export class SpotifyAPI {
+	private tokens: TokenProvider;
+	private fetchImpl: typeof fetch;
+	private baseUrl: string;
 
-		if (data.refresh_token) {
-			localStorage.setItem('spotify_refresh_token', data.refresh_token);
-		}
-
-		const expiresAt = Date.now() + (data.expires_in * 1000);
-		localStorage.setItem('spotify_token_expires_at', expiresAt.toString());
-		
-		return data.access_token;
+	constructor(options: SpotifyAPIOptions = {}) {
+		this.tokens = options.tokens ?? browserTokenProvider;
+		this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+		this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
 	}
 
-	async ensureValidToken(): Promise<string | null> {
-		let token = this.getAccessToken();
-
-		if (!token && typeof window !== 'undefined') {
-			token = localStorage.getItem('spotify_access_token');
-			if (token) {
-				this.accessToken = token;
-			}
-		}
+	private async sendRequest(endpoint: string, options: RequestOptions, token: string): Promise<Response> {
+		// POST and DELETE are left to the mutation outbox, which checks Spotify's state before replaying
+		const { retryable: retryableOption, ...init } = options;
+		const method = (init.method ?? 'GET').toUpperCase();
+		const retryable = retryableOption ?? (method === 'GET' || method === 'PUT');
 
-		if (token && this.isTokenExpired()) {
-			try {
-				console.log('Token expired, refreshing...');
-				token = await this.refreshAccessToken();
-				console.log('Token refreshed successfully');
-			} catch (error) {
-				console.error('Failed to refresh token:', error);
-				this.logout();
-				return null;
-			}
-		}
-		
-		return token;
-	}
-
-	logout(): void {
-		this.accessToken = null;
-		if (typeof window !== 'undefined') {
-			localStorage.removeItem('spotify_access_token');
-			localStorage.removeItem('spotify_refresh_token');
-			localStorage.removeItem('spotify_token_expires_at');
-			localStorage.removeItem('spotify_code_verifier');
+		try {
+			return await requestScheduler.schedule(() =>
+				this.fetchImpl(`${this.baseUrl}${endpoint}`, {
+					...init,
+					headers: {
+						Authorization: `Bearer ${token}`,
+						'Content-Type': 'application/json',
+						...init.headers
+					}
+				}),
+				{ retryable }
+			);
+		} catch (error) {
+			throw new SpotifyNetworkError(endpoint, error);
 		}
 	}
 
-	private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
-		const token = await this.ensureValidToken();
+	private async makeRequest(endpoint: string, options: RequestOptions = {}): Promise<any> {
+		const token = await this.tokens.getValidToken();
 		if (!token) {
-			throw new Error('No access token available');
+			throw new SpotifyAuthError('No access token available', { status: 401, endpoint });
 		}
 
-		const response = await fetch(`https://api.spotify.com/v1${endpoint}`, {
-			...options,
-			headers: {
-				Authorization: `Bearer ${token}`,
-				'Content-Type': 'application/json',
-				...options.headers
+		let response = await this.sendRequest(endpoint, options, token);
+
+		if (response.status === 401) {
+			const refreshedToken = await this.tokens.handleUnauthorized(token);
+			if (!refreshedToken) {
+				throw new SpotifyAuthError('Authentication failed', { status: 401, endpoint });
 			}
-		});
+			response = await this.sendRequest(endpoint, options, refreshedToken);
+		}
 
 		if (!response.ok) {
 			if (response.status === 401) {
-				try {
-					const refreshedToken = await this.refreshAccessToken();
-					const retryResponse = await fetch(`https://api.spotify.com/v1${endpoint}`, {
-						...options,
-						headers: {
-							Authorization: `Bearer ${refreshedToken}`,
-							'Content-Type': 'application/json',
-							...options.headers
-						}
-					});
-					
-					if (retryResponse.ok) {
-						const text = await retryResponse.text();
-						return text ? JSON.parse(text) : {};
-					}
-				} catch (refreshError) {
-					console.error('Token refresh failed:', refreshError);
-				}
-
-				this.logout();
-				throw new Error('Authentication failed');
+				throw new SpotifyAuthError('Authentication failed', { status: 401, endpoint });
 			}
-			throw new Error(`Spotify API error: ${response.status}`);
+			throw await createSpotifyApiError(response, endpoint);
 		}
 
 		const text = await response.text();
@@ -314,46 +302,43 @@ class SpotifyAPI {
 		return this.makeRequest('/me');
 	}
 
+	private toRelativeEndpoint(nextUrl: string): string {
+		if (nextUrl.startsWith(this.baseUrl)) {
+			return nextUrl.substring(this.baseUrl.length);
+		}
+
+		const url = new URL(nextUrl);
+		let path = url.pathname;
+		if (path.startsWith('/v1')) {
+			path = path.substring(3);
+		}
+		return path + url.search;
+	}
+
+	async *paginate<T>(endpoint: string): AsyncGenerator<SpotifyPage<T>> {
+		let url: string | null = endpoint;
+
+		while (url) {
+			const response: SpotifyPage<T> = await this.makeRequest(url);
+
+			if (!response || !response.items) {
+				console.error('Invalid paginated response format:', response);
+				throw new Error('Invalid response format from Spotify API');
+			}
+
+			yield response;
+			url = response.next ? this.toRelativeEndpoint(response.next) : null;
+		}
+	}
+
 	async getUserPlaylists(): Promise<SpotifyPlaylist[]> {
 		let allPlaylists: SpotifyPlaylist[] = [];
-		let url: string | null = '/me/playlists?limit=50';
-		let pageCount = 0;
 		
 		console.log('Fetching user playlists...');
 		
 		try {
-			while (url) {
-				pageCount++;
-				
-				const response = await this.makeRequest(url);
-				
-				if (!response || !response.items) {
-					console.error('Invalid playlists response format:', response);
-					throw new Error('Invalid response format from Spotify API');
-				}
-				
-				allPlaylists = allPlaylists.concat(response.items);
-
-				if (response.next) {
-					try {
-						const nextUrl = new URL(response.next);
-						let path = nextUrl.pathname;
-						if (path.startsWith('/v1')) {
-							path = path.substring(3);
-						}
-						url = path + nextUrl.search;
-					} catch (urlError) {
-						console.error('Failed to parse next playlist URL:', response.next, urlError);
-						break;
-					}
-				} else {
-					url = null;
-				}
-				
-				if (pageCount > 20) {
-					console.warn('Too many playlist pages, stopping pagination');
-					break;
-				}
+			for await (const page of this.paginate<SpotifyPlaylist>('/me/playlists?limit=50')) {
+				allPlaylists = allPlaylists.concat(page.items);
 			}
 		} catch (error) {
 			console.error('Error during playlists pagination:', error);
@@ -366,53 +351,42 @@ class SpotifyAPI {
 
 	async getPlaylist(playlistId: string): Promise<SpotifyPlaylist> {
 		console.log(`Fetching playlist details for ${playlistId}...`);
+		if (isLikedSongs(playlistId)) {
+			const { total } = await this.getSavedTracksSummary();
+			return likedSongsPlaylist(total);
+		}
 		return this.makeRequest(`/playlists/${playlistId}`);
 	}
 
+	private async getSavedTracksSummary(): Promise<{ total: number; newestAddedAt: string | null }> {
+		const response = await this.makeRequest(`/me/tracks?limit=1&fields=items(added_at),total`);
+		return { total: response?.total ?? 0, newestAddedAt: response?.items?.[0]?.added_at ?? null };
+	}
+
+	async *streamPlaylistTracks(playlistId: string): AsyncGenerator<PlaylistTracksPage> {
+		const endpoint = isLikedSongs(playlistId)
+			? `/me/tracks?limit=50&fields=items(added_at,track(${TRACK_FIELDS})),next,total&market=from_token`
+			: `/playlists/${playlistId}/tracks?limit=100&additional_types=track,episode&fields=items(added_at,added_by(id),is_local,track(${TRACK_FIELDS})),next,total&market=from_token`;
+		let itemOffset = 0;
+
+		for await (const page of this.paginate<SpotifyPlaylistItem>(endpoint)) {
+			const tracks = page.items
+				.map((item, index) => playlistItemToTrack(item, itemOffset + index))
+				.filter((track): track is SpotifyTrack => track !== null);
+
+			itemOffset += page.items.length;
+			yield { tracks, loaded: itemOffset, total: page.total ?? itemOffset };
+		}
+	}
+
 	async getPlaylistTracks(playlistId: string): Promise<SpotifyTrack[]> {
 		let allTracks: SpotifyTrack[] = [];
-		let url: string | null = `/playlists/${playlistId}/tracks?limit=100&fields=items(track(id,name,artists(name),album(name,images),duration_ms,uri,preview_url,is_playable,restrictions,available_markets,linked_from(id,uri,external_urls))),next&market=from_token`;
-		let pageCount = 0;
 		
 		console.log(`Fetching tracks for playlist ${playlistId}...`);
 		
 		try {
-			while (url) {
-				pageCount++;
-				
-				const response = await this.makeRequest(url);
-				
-				if (!response || !response.items) {
-					console.error('Invalid response format:', response);
-					throw new Error('Invalid response format from Spotify API');
-				}
-				
-				const tracks = response.items
-					.map((item: any) => item.track)
-					.filter((track: any) => track !== null && track !== undefined);
-				
-				allTracks = allTracks.concat(tracks);
-
-				if (response.next) {
-					try {
-						const nextUrl = new URL(response.next);
-						let path = nextUrl.pathname;
-						if (path.startsWith('/v1')) {
-							path = path.substring(3);
-						}
-						url = path + nextUrl.search;
-					} catch (urlError) {
-						console.error('Failed to parse next URL:', response.next, urlError);
-						break;
-					}
-				} else {
-					url = null;
-				}
-
-				if (pageCount > 50) {
-					console.warn('Too many pages, stopping pagination');
-					break;
-				}
+			for await (const page of this.streamPlaylistTracks(playlistId)) {
+				allTracks = allTracks.concat(page.tracks);
 			}
 		} catch (error) {
 			console.error('Error during playlist tracks pagination:', error);
@@ -423,35 +397,173 @@ class SpotifyAPI {
 		return allTracks;
 	}
 
-	async addTrackToPlaylist(playlistId: string, trackUri: string): Promise<void> {
-		await this.makeRequest(`/playlists/${playlistId}/tracks`, {
+	async addTrackToPlaylist(playlistId: string, trackUri: string, position?: number): Promise<string | null> {
+		if (isLikedSongs(playlistId)) {
+			await this.saveTracksForUser([trackIdFromUri(trackUri)]);
+			return null;
+		}
+		const response = await this.makeRequest(`/playlists/${playlistId}/tracks`, {
 			method: 'POST',
 			body: JSON.stringify({
-				uris: [trackUri]
+				uris: [trackUri],
+				...(position !== undefined ? { position } : {})
 			})
 		});
+		return response?.snapshot_id || null;
 	}
 
-	async addTracksToPlaylist(playlistId: string, trackUris: string[]): Promise<void> {
+	// With a position the tracks go in as one block starting there, otherwise they are appended
+	// Returns the snapshot after the last batch, or null for Liked Songs which has none
+	async addTracksToPlaylist(playlistId: string, trackUris: string[], position?: number): Promise<string | null> {
+		if (isLikedSongs(playlistId)) {
+			await this.saveTracksForUser(trackUris.map(trackIdFromUri));
+			return null;
+		}
+
 		const batchSize = 100;
+		let snapshotId: string | null = null;
 		for (let i = 0; i < trackUris.length; i += batchSize) {
 			const batch = trackUris.slice(i, i + batchSize);
-			await this.makeRequest(`/playlists/${playlistId}/tracks`, {
+			const response = await this.makeRequest(`/playlists/${playlistId}/tracks`, {
 				method: 'POST',
 				body: JSON.stringify({
-					uris: batch
+					uris: batch,
+					...(position !== undefined ? { position: position + i } : {})
 				})
 			});
+			snapshotId = response?.snapshot_id || null;
+		}
+		return snapshotId;
+	}
+
+	async createPlaylist(userId: string, details: PlaylistDetails): Promise<SpotifyPlaylist> {
+		console.log(`Creating playlist "${details.name}" for user ${userId}...`);
+		return this.makeRequest(`/users/${encodeURIComponent(userId)}/playlists`, {
+			method: 'POST',
+			body: JSON.stringify(details)
+		});
+	}
+
+	async updatePlaylistDetails(playlistId: string, details: Partial<PlaylistDetails>): Promise<void> {
+		await this.makeRequest(`/playlists/${playlistId}`, {
+			method: 'PUT',
+			body: JSON.stringify(details)
+		});
+	}
+
+	async unfollowPlaylist(playlistId: string): Promise<void> {
+		await this.makeRequest(`/playlists/${playlistId}/followers`, {
+			method: 'DELETE'
+		});
+	}
+
+	async reorderPlaylistItems(
+		playlistId: string,
+		rangeStart: number,
+		insertBefore: number,
+		rangeLength = 1,
+		snapshotId?: string
+	): Promise<string | null> {
+		if (isLikedSongs(playlistId)) {
+			throw new Error('Liked Songs cannot be reordered');
 		}
+
+		// Moving a range twice lands it somewhere else, so a lost response must not be resent
+		const response = await this.makeRequest(`/playlists/${playlistId}/tracks`, {
+			method: 'PUT',
+			retryable: false,
+			body: JSON.stringify({
+				range_start: rangeStart,
+				insert_before: insertBefore,
+				range_length: rangeLength,
+				...(snapshotId ? { snapshot_id: snapshotId } : {})
+			})
+		});
+		return response?.snapshot_id || null;
 	}
 
-	async removeTrackFromPlaylist(playlistId: string, trackUri: string): Promise<void> {
-		await this.makeRequest(`/playlists/${playlistId}/tracks`, {
+	async getPlaylistSnapshotId(playlistId: string): Promise<string> {
+		// Saved tracks have no snapshot, but any save or removal changes the count or the newest entry
+		if (isLikedSongs(playlistId)) {
+			const { total, newestAddedAt } = await this.getSavedTracksSummary();
+			return `liked:${total}:${newestAddedAt ?? ''}`;
+		}
+
+		const response = await this.makeRequest(`/playlists/${playlistId}?fields=snapshot_id`);
+		return response.snapshot_id;
+	}
+
+	async removeTrackFromPlaylist(playlistId: string, trackUri: string, options: RemoveTrackOptions = {}): Promise<string | null> {
+		const { position, snapshotId } = options;
+
+		// A track can only be saved once, so there is no position to get wrong and no conflict to check
+		if (isLikedSongs(playlistId)) {
+			await this.removeUserSavedTracks([trackIdFromUri(trackUri)]);
+			return null;
+		}
+
+		if (snapshotId) {
+			const currentSnapshotId = await this.getPlaylistSnapshotId(playlistId);
+			if (currentSnapshotId !== snapshotId) {
+				throw new PlaylistConflictError(playlistId, snapshotId, currentSnapshotId);
+			}
+		}
+
+		const response = await this.makeRequest(`/playlists/${playlistId}/tracks`, {
 			method: 'DELETE',
 			body: JSON.stringify({
-				tracks: [{ uri: trackUri }]
+				tracks: [position !== undefined ? { uri: trackUri, positions: [position] } : { uri: trackUri }],
+				...(snapshotId ? { snapshot_id: snapshotId } : {})
 			})
 		});
+		return response?.snapshot_id || null;
+	}
+
+	// Works from the highest position down, so each batch leaves the positions of the next one untouched
+	// Callers sending several batches verify only the first, later ones carry the snapshot the previous batch returned
+	async removeTracksFromPlaylist(playlistId: string, items: PlaylistItemRef[], snapshotId?: string | null, verifySnapshot = true): Promise<string | null> {
+		if (isLikedSongs(playlistId)) {
+			await this.removeUserSavedTracks(items.map(item => trackIdFromUri(item.uri)));
+			return null;
+		}
+
+		if (snapshotId && verifySnapshot) {
+			const currentSnapshotId = await this.getPlaylistSnapshotId(playlistId);
+			if (currentSnapshotId !== snapshotId) {
+				throw new PlaylistConflictError(playlistId, snapshotId, currentSnapshotId);
+			}
+		}
+
+		const sorted = [...items].sort((a, b) => (b.position ?? -1) - (a.position ?? -1));
+		const batchSize = 100;
+		let latestSnapshotId = snapshotId || null;
+
+		for (let i = 0; i < sorted.length; i += batchSize) {
+			const batch = sorted.slice(i, i + batchSize);
+			const byUri = new Map<string, number[]>();
+			const withoutPosition = new Set<string>();
+			batch.forEach(item => {
+				if (item.position === undefined) {
+					withoutPosition.add(item.uri);
+				} else {
+					byUri.set(item.uri, [...(byUri.get(item.uri) ?? []), item.position]);
+				}
+			});
+
+			const response = await this.makeRequest(`/playlists/${playlistId}/tracks`, {
+				method: 'DELETE',
+				body: JSON.stringify({
+					tracks: [
+						...[...byUri].filter(([uri]) => !withoutPosition.has(uri)).map(([uri, positions]) => ({ uri, positions })),
+						...[...withoutPosition].map(uri => ({ uri }))
+					],
+					...(latestSnapshotId ? { snapshot_id: latestSnapshotId } : {})
+				})
+			});
+			latestSnapshotId = response?.snapshot_id || latestSnapshotId;
+		}
+
+		return latestSnapshotId;
 	}
 
 	async playFromContext(contextUri: string, offset: number, deviceId?: string): Promise<void> {
@@ -498,14 +610,14 @@ class SpotifyAPI {
 				body: JSON.stringify(body)
 			});
 			console.log('Play request successful');
-		} catch (error: any) {
+		} catch (error) {
 			console.error('Play request failed:', error);
 
-			if (error.status === 403 && error.message?.includes('Premium')) {
-				throw new Error('Spotify Premium is required for playback. Please upgrade your account to use this feature.');
+			if (error instanceof SpotifyForbiddenError && error.reason === 'PREMIUM_REQUIRED') {
+				throw error;
 			}
 
-			if (error.status === 404 && deviceId) {
+			if (error instanceof SpotifyNotFoundError && deviceId) {
 				console.warn('Device not found, attempting to activate device first');
 				try {
 					await this.transferPlayback(deviceId);
@@ -586,23 +698,16 @@ class SpotifyAPI {
 		});
 	}
 
-	async getUserSavedTracks(): Promise<string[]> {
+	async getSavedTracks(): Promise<SavedTrackEntry[]> {
 		console.log('Fetching user saved tracks...');
 
-		const firstResponse = await this.makeRequest('/me/tracks?limit=50&fields=items(track(id,linked_from(id))),next,total');
+		const firstResponse = await this.makeRequest(`/me/tracks?limit=50&fields=${SAVED_TRACK_FIELDS},next,total`);
 		
 		if (!firstResponse || !firstResponse.items) {
 			return [];
 		}
 		
-		let allTrackIds = firstResponse.items
-			.flatMap((item: any) => {
-				const ids: string[] = [];
-				if (item.track?.id) ids.push(item.track.id);
-				if (item.track?.linked_from?.id) ids.push(item.track.linked_from.id);
-				return ids;
-			})
-			.filter((id: string) => id !== null && id !== undefined);
+		let allEntries = toSavedTrackEntries(firstResponse.items);
 		
 		const total = firstResponse.total || 0;
 		console.log(`Total saved tracks: ${total}`);
@@ -611,39 +716,41 @@ class SpotifyAPI {
 		
 		if (remainingPages > 0) {
 			const offsets = Array.from({ length: remainingPages }, (_, i) => (i + 1) * 50);
-			const batchSize = 5;
-			for (let i = 0; i < offsets.length; i += batchSize) {
-				const batch = offsets.slice(i, i + batchSize);
-				const requests = batch.map(offset => 
-					this.makeRequest(`/me/tracks?limit=50&offset=${offset}&fields=items(track(id,linked_from(id)))`)
-						.catch(err => {
-							console.error(`Failed to fetch offset ${offset}:`, err);
-							return { items: [] };
-						})
-				);
-				
-				const responses = await Promise.all(requests);
-				
-				responses.forEach(response => {
-					if (response?.items) {
-						const trackIds = response.items
-							.flatMap((item: any) => {
-								const ids: string[] = [];
-								if (item.track?.id) ids.push(item.track.id);
-								if (item.track?.linked_from?.id) ids.push(item.track.linked_from.id);
-								return ids;
-							})
-							.filter((id: string) => id !== null && id !== undefined);
-						allTrackIds = allTrackIds.concat(trackIds);
-					}
-				});
-				
-				console.log(`Fetched ${allTrackIds.length} IDs from saved tracks (including relinks)...`);
-			}
+			const responses = await Promise.all(
+				offsets.map(offset =>
+					this.makeRequest(`/me/tracks?limit=50&offset=${offset}&fields=${SAVED_TRACK_FIELDS}`)
+				)
+			);
+			
+			responses.forEach(response => {
+				if (response?.items) {
+					allEntries = allEntries.concat(toSavedTrackEntries(response.items));
+				}
+			});
 		}
 		
-		console.log(`Finished fetching all track IDs from ${total} saved tracks (total IDs including relinks: ${allTrackIds.length})`);
-		return allTrackIds;
+		console.log(`Finished fetching all ${allEntries.length} saved tracks`);
+		return allEntries;
+	}
+
+	// Newest saves first, so callers can stop as soon as they reach tracks they already know
+	async *streamSavedTracks(): AsyncGenerator<SavedTracksPage> {
+		for await (const page of this.paginate<any>(`/me/tracks?limit=50&fields=${SAVED_TRACK_FIELDS},next,total`)) {
+			yield { entries: toSavedTrackEntries(page.items), total: page.total ?? 0 };
+		}
+	}
+
+	async containsSavedTracks(trackIds: string[]): Promise<boolean[]> {
+		const batchSize = 50;
+		let results: boolean[] = [];
+
+		for (let i = 0; i < trackIds.length; i += batchSize) {
+			const batch = trackIds.slice(i, i + batchSize);
+			const response = await this.makeRequest(`/me/tracks/contains?ids=${batch.join(',')}`);
+			results = results.concat(Array.isArray(response) ? response : batch.map(() => false));
+		}
+
+		return results;
 	}
 
 	async saveTracksForUser(trackIds: string[]): Promise<void> {
@@ -0,0 +1,82 @@
+// PKCE helpers shared by the browser login and the server-backed session routes
+import type { AccountProfile } from './stores';
+
+export const SCOPES = [
+	'streaming',
+	'user-read-email',
+	'user-read-private',
+	'user-read-playback-state',
+	'user-library-read',
+	'user-library-modify',
+	'user-modify-playback-state',
+	'playlist-read-private',
+	'playlist-read-collaborative',
+	'playlist-modify-public',
+	'playlist-modify-private'
+];
+
+export interface AuthorizeUrlParams {
+	clientId: string;
+	redirectUri: string;
+	codeChallenge: string;
+	state: string;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode.apply(null, Array.from(bytes)))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+export function generateRandomString(): string {
+	const array = new Uint8Array(32);
+	crypto.getRandomValues(array);
+	return toBase64Url(array);
+}
+
+export async function generateCodeChallenge(verifier: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const data = encoder.encode(verifier);
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return toBase64Url(new Uint8Array(digest));
+}
+
+export function buildAuthorizeUrl({
+	clientId,
+	redirectUri,
+	codeChallenge,
+	state
+}: AuthorizeUrlParams): string {
+	const params = new URLSearchParams({
+		client_id: clientId,
+		response_type: 'code',
+		redirect_uri: redirectUri,
+		scope: SCOPES.join(' '),
+		code_challenge_method: 'S256',
+		code_challenge: codeChallenge,
+		state,
+		show_dialog: 'true'
+	});
+
+	return `https://accounts.spotify.com/authorize?${params.toString()}`;
+}
+
+export async function fetchSpotifyProfile(
+	accessToken: string,
+	fetchImpl: typeof fetch = fetch
+): Promise<AccountProfile> {
+	const response = await fetchImpl('https://api.spotify.com/v1/me', {
+		headers: { Authorization: `Bearer ${accessToken}` }
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to load Spotify profile: ${response.status}`);
+	}
+
+	const user = await response.json();
+	return {
+		userId: user.id,
+		displayName: user.display_name || user.id,
+		imageUrl: user.images?.[0]?.url ?? null
+	};
+}
@@ -0,0 +1,173 @@
+import { parseRetryAfter } from './requestScheduler';
+
+export type SpotifyErrorReason =
+	| 'PREMIUM_REQUIRED'
+	| 'NO_ACTIVE_DEVICE'
+	| 'DEVICE_NOT_CONTROLLABLE'
+	| 'REMOTE_CONTROL_DISALLOW'
+	| 'RATE_LIMITED'
+	| 'UNKNOWN'
+	| (string & {});
+
+interface SpotifyApiErrorDetails {
+	status: number;
+	endpoint: string;
+	reason?: string | null;
+	retryAfterMs?: number | null;
+}
+
+export class SpotifyApiError extends Error {
+	readonly status: number;
+	readonly endpoint: string;
+	readonly reason: SpotifyErrorReason | null;
+	readonly retryAfterMs: number | null;
+
+	constructor(message: string, details: SpotifyApiErrorDetails) {
+		super(message);
+		this.name = 'SpotifyApiError';
+		this.status = details.status;
+		this.endpoint = details.endpoint;
+		this.reason = details.reason ?? null;
+		this.retryAfterMs = details.retryAfterMs ?? null;
+	}
+}
+
+export class SpotifyAuthError extends SpotifyApiError {
+	constructor(message: string, details: SpotifyApiErrorDetails) {
+		super(message, details);
+		this.name = 'SpotifyAuthError';
+	}
+}
+
+export class SpotifyForbiddenError extends SpotifyApiError {
+	constructor(message: string, details: SpotifyApiErrorDetails) {
+		super(message, details);
+		this.name = 'SpotifyForbiddenError';
+	}
+}
+
+export class SpotifyNotFoundError extends SpotifyApiError {
+	constructor(message: string, details: SpotifyApiErrorDetails) {
+		super(message, details);
+		this.name = 'SpotifyNotFoundError';
+	}
+}
+
+export class SpotifyRateLimitError extends SpotifyApiError {
+	constructor(message: string, details: SpotifyApiErrorDetails) {
+		super(message, details);
+		this.name = 'SpotifyRateLimitError';
+	}
+}
+
+export class SpotifyServerError extends SpotifyApiError {
+	constructor(message: string, details: SpotifyApiErrorDetails) {
+		super(message, details);
+		this.name = 'SpotifyServerError';
+	}
+}
+
+export class SpotifyNetworkError extends SpotifyApiError {
+	constructor(endpoint: string, cause: unknown) {
+		super(
+			`Network request to ${endpoint} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+			{
+				status: 0,
+				endpoint
+			}
+		);
+		this.name = 'SpotifyNetworkError';
+	}
+}
+
+export class PlaylistConflictError extends Error {
+	readonly playlistId: string;
+	readonly expectedSnapshotId: string;
+	readonly actualSnapshotId: string;
+
+	constructor(playlistId: string, expectedSnapshotId: string, actualSnapshotId: string) {
+		super(`Playlist ${playlistId} changed since it was loaded`);
+		this.name = 'PlaylistConflictError';
+		this.playlistId = playlistId;
+		this.expectedSnapshotId = expectedSnapshotId;
+		this.actualSnapshotId = actualSnapshotId;
+	}
+}
+
+export async function createSpotifyApiError(
+	response: Response,
+	endpoint: string
+): Promise<SpotifyApiError> {
+	let message = `Spotify API error: ${response.status}`;
+	let reason: string | null = null;
+
+	try {
+		const body = await response.json();
+		if (body?.error?.message) {
+			message = `Spotify API error: ${response.status} ${body.error.message}`;
+		}
+		if (body?.error?.reason) {
+			reason = body.error.reason;
+		}
+	} catch {
+		// Spotify does not always send a JSON body with errors
+	}
+
+	const retryAfter = response.headers.get('Retry-After');
+	const details: SpotifyApiErrorDetails = {
+		status: response.status,
+		endpoint,
+		reason,
+		retryAfterMs: retryAfter ? parseRetryAfter(retryAfter) : null
+	};
+
+	if (response.status === 401) return new SpotifyAuthError(message, details);
+	if (response.status === 403) return new SpotifyForbiddenError(message, details);
+	if (response.status === 404) return new SpotifyNotFoundError(message, details);
+	if (response.status === 429) return new SpotifyRateLimitError(message, details);
+	if (response.status >= 500) return new SpotifyServerError(message, details);
+	return new SpotifyApiError(message, details);
+}
+
+export function getSpotifyErrorMessage(error: unknown): string {
+	if (error instanceof PlaylistConflictError) {
+		return 'This playlist was changed elsewhere since it was loaded. Reload it to see the latest tracks, then try again.';
+	}
+	if (!(error instanceof SpotifyApiError)) {
+		return error instanceof Error ? error.message : 'Unknown error';
+	}
+
+	switch (error.reason) {
+		case 'PREMIUM_REQUIRED':
+			return 'Spotify Premium is required for playback. Please upgrade your account to use this feature.';
+		case 'NO_ACTIVE_DEVICE':
+			return 'No active Spotify device found. Open Spotify on one of your devices and try again.';
+		case 'DEVICE_NOT_CONTROLLABLE':
+		case 'REMOTE_CONTROL_DISALLOW':
+			return 'This Spotify device cannot be controlled remotely.';
+	}
+
+	if (error instanceof SpotifyNetworkError) {
+		return 'Could not reach Spotify. Check your internet connection and try again.';
+	}
+	if (error instanceof SpotifyAuthError) {
+		return 'Your Spotify session has expired. Please log in again.';
+	}
+	if (error instanceof SpotifyForbiddenError) {
+		return 'Spotify denied this request. You may not have permission to change this item.';
+	}
+	if (error instanceof SpotifyNotFoundError) {
+		return 'Spotify could not find the requested item or device.';
+	}
+	if (error instanceof SpotifyRateLimitError) {
+		const seconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+		return seconds
+			? `Spotify is rate limiting requests. Try again in ${seconds} seconds.`
+			: 'Spotify is rate limiting requests. Try again shortly.';
+	}
+	if (error instanceof SpotifyServerError) {
+		return 'Spotify is having trouble right now. Please try again shortly.';
+	}
+
+	return error.message;
+}
@@ -13,6 +13,24 @@ export const currentTrack = writable<SpotifyTrack | null>(null);
 export const playbackPosition = writable(0);
 export const trackDuration = writable(0);
 export const isAuthenticated = writable(false);
+
+export type AuthState = 'anonymous' | 'authenticating' | 'valid' | 'refreshing' | 'expired';
+
+export const authState = writable<AuthState>('anonymous');
+
+export interface AccountProfile {
+	userId: string;
+	displayName: string;
+	imageUrl: string | null;
+}
+
+export const accounts = writable<AccountProfile[]>([]);
+export const activeAccountId = writable<string | null>(null);
+
+export type TabRole = 'leader' | 'follower';
+
+export const tabRole = writable<TabRole>('leader');
+
 export const currentPlaylistSnapshot = writable<string | null>(null);
 export const isRefreshingPlaylists = writable(false);
 export const isPlaylistSelectorOpen = writable(false);
@@ -21,6 +39,38 @@ export const isLibraryLoading = writable(false);
 export const isShuffleOn = writable(false);
 export const targetPlaylistTracks = writable<Set<string>>(new Set());
 export const isTargetPlaylistLoading = writable(false);
+// Track IDs for each target slot's playlist, keyed by playlist ID
+export const slotPlaylistTracks = writable<Record<string, Set<string>>>({});
+
+export type TrackSortOrder = 'playlist' | 'added-desc' | 'added-asc';
+
+export const trackSortOrder = writable<TrackSortOrder>('playlist');
+
+export interface LoadProgress {
+	loaded: number;
+	total: number;
+}
+
+export const playlistLoadProgress = writable<LoadProgress | null>(null);
+export const targetPlaylistLoadProgress = writable<LoadProgress | null>(null);
+export const libraryBulkProgress = writable<LoadProgress | null>(null);
+export const playlistBulkProgress = writable<LoadProgress | null>(null);
+// Playlist and library changes waiting in the outbox for Spotify to become reachable
+export const pendingMutations = writable(0);
+
+export interface RequestQueueState {
+	queued: number;
+	active: number;
+	isThrottled: boolean;
+	throttledUntil: number | null;
+}
+
+export const requestQueueState = writable<RequestQueueState>({
+	queued: 0,
+	active: 0,
+	isThrottled: false,
+	throttledUntil: null
+});
 
 export type RepeatMode = 'off' | 'playlist' | 'track';
 
@@ -84,82 +134,151 @@ export interface ScraperSettings {
 	releaseRadarUrl: string;
 }
 
+export type LibraryMode = 'preload' | 'lazy';
+
+export interface LibrarySettings {
+	// 'lazy' checks saved state with /me/tracks/contains for visible tracks instead of loading every save
+	mode: LibraryMode;
+}
+
+export const MAX_TARGET_SLOTS = 9;
+
+export interface TargetSlot {
+	name: string;
+	playlistId: string;
+}
+
 export interface PlaylistSelections {
 	source: string;
 	target: string;
+	// Number keys 1-9 copy to these in order, so their position is their hotkey
+	slots: TargetSlot[];
 }
 
-function createSettingsStore() {
-	const storedSettings = typeof localStorage !== 'undefined' 
-		? localStorage.getItem('motify-scraper-settings') 
-		: null;
-	
-	const defaultSettings: ScraperSettings = {
-		discoverWeeklyUrl: '',
-		releaseRadarUrl: ''
-	};
-	
-	const initialSettings = storedSettings 
-		? { ...defaultSettings, ...JSON.parse(storedSettings) }
-		: defaultSettings;
+export type SetOperation = 'union' | 'intersection' | 'difference' | 'symmetric-difference';
 
-	const { subscribe, set, update } = writable<ScraperSettings>(initialSettings);
+export type SetOrdering = 'source' | 'date-added' | 'interleave';
 
-	return {
-		subscribe,
-		set: (value: ScraperSettings) => {
-			if (typeof localStorage !== 'undefined') {
-				localStorage.setItem('motify-scraper-settings', JSON.stringify(value));
-			}
-			set(value);
-		},
-		update: (fn: (value: ScraperSettings) => ScraperSettings) => {
-			update((value) => {
-				const newValue = fn(value);
-				if (typeof localStorage !== 'undefined') {
-					localStorage.setItem('motify-scraper-settings', JSON.stringify(newValue));
-				}
-				return newValue;
-			});
-		}
-	};
+export interface PlaylistRecipe {
+	id: string;
+	name: string;
+	operation: SetOperation;
+	// Order matters: difference keeps the first playlist's tracks, and source order follows this list
+	sourceIds: string[];
+	ordering: SetOrdering;
+	// Empty until the first run creates a playlist, which later runs then keep filling
+	destinationId: string;
+	// Tracks earlier runs put in the destination; only these are taken out when they drop out of the set.
+	// Missing on recipes saved before it was tracked
+	addedTrackIds?: string[];
+	lastRunAt: string | null;
+}
+
+export interface PlaylistRecipes {
+	recipes: PlaylistRecipe[];
+}
+
+export type LikedFilter = 'any' | 'liked' | 'not-liked';
+
+export interface SmartPlaylistRules {
+	// Artist names, matched case-insensitively against every credited artist
+	includeArtists: string[];
+	excludeArtists: string[];
+	// ISO dates (YYYY-MM-DD), empty for no bound
+	addedAfter: string;
+	addedBefore: string;
+	minDurationSeconds: number | null;
+	maxDurationSeconds: number | null;
+	liked: LikedFilter;
+	playableOnly: boolean;
+	excludePlaylistIds: string[];
+}
+
+export interface SmartPlaylistDefinition {
+	id: string;
+	name: string;
+	// May include Liked Songs alongside regular playlists
+	sourceIds: string[];
+	rules: SmartPlaylistRules;
+	// Owned playlist the definition writes to, empty until the first refresh creates it
+	playlistId: string;
+	lastRefreshedAt: string | null;
+}
+
+export interface SmartPlaylists {
+	definitions: SmartPlaylistDefinition[];
 }
 
-function createPlaylistSelectionsStore() {
-	const storedSelections = typeof localStorage !== 'undefined' 
-		? localStorage.getItem('motify-selected-playlists') 
-		: null;
-	
-	const defaultSelections: PlaylistSelections = {
-		source: '',
-		target: ''
+function readAccountScoped<T>(baseKey: string, accountId: string | null, defaults: T): T {
+	if (typeof localStorage === 'undefined') return defaults;
+
+	if (!accountId) {
+		const stored = localStorage.getItem(baseKey);
+		return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+	}
+
+	// Values saved before accounts were scoped live under the bare key. They move to the first
+	// account identified, so accounts added later start from the defaults instead of inheriting them
+	const scopedKey = `${baseKey}:${accountId}`;
+	let stored = localStorage.getItem(scopedKey);
+	const legacy = localStorage.getItem(baseKey);
+	if (stored === null && legacy !== null) {
+		localStorage.setItem(scopedKey, legacy);
+		stored = legacy;
+	}
+	if (legacy !== null) {
+		localStorage.removeItem(baseKey);
+	}
+	return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+}
+
+function createAccountScopedStore<T>(baseKey: string, defaults: T) {
+	let accountId: string | null = null;
+	const { subscribe, set, update } = writable<T>(readAccountScoped(baseKey, accountId, defaults));
+
+	const persist = (value: T) => {
+		if (typeof localStorage !== 'undefined') {
+			localStorage.setItem(accountId ? `${baseKey}:${accountId}` : baseKey, JSON.stringify(value));
+		}
 	};
-	
-	const initialSelections = storedSelections 
-		? { ...defaultSelections, ...JSON.parse(storedSelections) }
-		: defaultSelections;
 
-	const { subscribe, set, update } = writable<PlaylistSelections>(initialSelections);
+	activeAccountId.subscribe((id) => {
+		if (id === accountId) return;
+		accountId = id;
+		set(readAccountScoped(baseKey, accountId, defaults));
+	});
 
 	return {
 		subscribe,
-		set: (value: PlaylistSelections) => {
-			if (typeof localStorage !== 'undefined') {
-				localStorage.setItem('motify-selected-playlists', JSON.stringify(value));
-			}
+		set: (value: T) => {
+			persist(value);
 			set(value);
 		},
-		update: (fn: (value: PlaylistSelections) => PlaylistSelections) => {
+		update: (fn: (value: T) => T) => {
 			update((value) => {
 				const newValue = fn(value);
-				if (typeof localStorage !== 'undefined') {
-					localStorage.setItem('motify-selected-playlists', JSON.stringify(newValue));
-				}
+				persist(newValue);
 				return newValue;
 			});
 		}
 	};
 }
 
-export const scraperSettings = createSettingsStore();
-export const playlistSelections = createPlaylistSelectionsStore();
+export const scraperSettings = createAccountScopedStore<ScraperSettings>('motify-scraper-settings', {
+	discoverWeeklyUrl: '',
+	releaseRadarUrl: ''
+});
+export const librarySettings = createAccountScopedStore<LibrarySettings>('motify-library-settings', {
+	mode: 'preload'
+});
+export const playlistSelections = createAccountScopedStore<PlaylistSelections>('motify-selected-playlists', {
+	source: '',
+	target: '',
+	slots: []
+});
+export const playlistRecipes = createAccountScopedStore<PlaylistRecipes>('motify-playlist-recipes', {
+	recipes: []
+});
+export const smartPlaylists = createAccountScopedStore<SmartPlaylists>('motify-smart-playlists', {
+	definitions: []
+});
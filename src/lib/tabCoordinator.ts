@@ -0,0 +1,321 @@
+import { browser } from '$app/environment';
+import { get } from 'svelte/store';
+import { authSession } from './authSession';
+import { webPlaybackService } from './webPlayback';
+import { targetPlaylistService } from './targetPlaylistService';
+import { playlistCache } from './playlistCache';
+import {
+	tabRole,
+	isAuthenticated,
+	userLibrary,
+	selectedPlaylist,
+	currentTracks,
+	originalTrackOrder,
+	currentTrack,
+	currentTrackIndex,
+	currentPlaylistSnapshot,
+	targetPlaylistTracks,
+	isShuffleOn,
+	trackSortOrder
+} from './stores';
+import type { SpotifyTrack } from './spotify';
+
+const CHANNEL_NAME = 'motify-tabs';
+const LEADER_LOCK = 'motify-leader';
+const TOKEN_REQUEST_TIMEOUT_MS = 10000;
+const DEVICE_READY_TIMEOUT_MS = 10000;
+
+export type TabMessage =
+	| { type: 'token-request'; staleToken: string | null }
+	| { type: 'token-updated' }
+	| { type: 'token-declined' }
+	| { type: 'logged-out' }
+	| { type: 'library-changed'; trackIds: string[]; saved: boolean }
+	| { type: 'playlist-changed'; playlistId: string; added?: string[]; removed?: string[] };
+
+interface TabEnvelope {
+	accountId: string | null;
+	message: TabMessage;
+}
+
+class TabCoordinator {
+	private channel: BroadcastChannel | null = null;
+	private isStarted = false;
+	private isLeaderTab = true;
+	private waitAbort: AbortController | null = null;
+	private tokenWaiters: ((error?: Error) => void)[] = [];
+
+	async start(): Promise<void> {
+		if (!browser || this.isStarted) return;
+		this.isStarted = true;
+
+		if (typeof BroadcastChannel !== 'undefined') {
+			this.channel = new BroadcastChannel(CHANNEL_NAME);
+			this.channel.onmessage = (event: MessageEvent<TabEnvelope>) =>
+				this.handleEnvelope(event.data);
+		}
+
+		authSession.subscribe((event) => {
+			if (event.type === 'tokenRefreshed' && this.isLeaderTab) {
+				this.broadcast({ type: 'token-updated' });
+			} else if (event.type === 'loggedOut') {
+				this.broadcast({ type: 'logged-out' }, event.userId);
+			}
+		});
+
+		if (!navigator.locks) {
+			console.warn('Web Locks are unavailable, this tab will act as leader');
+			this.setLeader(true);
+			return;
+		}
+
+		let isSettled = false;
+		const acquired = await new Promise<boolean>((resolve) => {
+			navigator.locks
+				.request(LEADER_LOCK, { ifAvailable: true }, (lock) => {
+					isSettled = true;
+					resolve(!!lock);
+					return lock ? this.holdLeadership() : undefined;
+				})
+				.catch((error) => {
+					// After we became leader, a rejection means another tab stole the lock
+					if (isSettled) {
+						this.handleLeadershipLost(error);
+						return;
+					}
+					console.error('Failed to request tab leadership:', error);
+					isSettled = true;
+					resolve(false);
+				});
+		});
+
+		if (acquired) {
+			this.setLeader(true);
+		} else {
+			this.setLeader(false);
+			this.waitForLeadership();
+		}
+	}
+
+	isLeader(): boolean {
+		return this.isLeaderTab;
+	}
+
+	broadcast(message: TabMessage, accountId: string | null = authSession.getAccountId()): void {
+		const envelope: TabEnvelope = { accountId, message };
+		this.channel?.postMessage(envelope);
+	}
+
+	async takeOverPlayback(): Promise<void> {
+		if (this.isLeaderTab || !navigator.locks) return;
+
+		console.log('Taking over playback from the leader tab...');
+		this.waitAbort?.abort();
+		this.waitAbort = null;
+
+		navigator.locks
+			.request(LEADER_LOCK, { steal: true }, () => {
+				this.setLeader(true);
+				return this.holdLeadership();
+			})
+			.catch((error) => this.handleLeadershipLost(error));
+
+		const deviceId = await webPlaybackService.waitForDevice(DEVICE_READY_TIMEOUT_MS);
+		if (deviceId) {
+			await webPlaybackService.activateDevice();
+		} else {
+			console.warn('Web Player did not become ready after taking over playback');
+		}
+	}
+
+	private waitForLeadership(): void {
+		const abort = new AbortController();
+		this.waitAbort = abort;
+
+		navigator.locks
+			.request(LEADER_LOCK, { signal: abort.signal }, () => {
+				this.waitAbort = null;
+				this.setLeader(true);
+				return this.holdLeadership();
+			})
+			.catch((error) => {
+				// Our own queued request is cancelled when this tab takes over explicitly
+				if (abort.signal.aborted) return;
+				if (!this.isLeaderTab) {
+					// Never got the lock, so queueing again would only fail the same way
+					console.error('Failed to wait for tab leadership:', error);
+					return;
+				}
+				this.handleLeadershipLost(error);
+			});
+	}
+
+	private holdLeadership(): Promise<void> {
+		// The lock is held until the tab closes or another tab steals it
+		return new Promise(() => {});
+	}
+
+	private handleLeadershipLost(error: unknown): void {
+		console.log('Another tab took over as leader:', error);
+		this.setLeader(false);
+		this.waitForLeadership();
+	}
+
+	private setLeader(isLeader: boolean): void {
+		this.isLeaderTab = isLeader;
+		tabRole.set(isLeader ? 'leader' : 'follower');
+		authSession.setRefreshDelegate(
+			isLeader ? null : (staleToken) => this.requestTokenFromLeader(staleToken)
+		);
+
+		if (isLeader && get(isAuthenticated) && !webPlaybackService.hasPlayer()) {
+			console.log('This tab is now the leader, starting Web Player');
+			webPlaybackService.initialize().catch((error) => {
+				console.error('Failed to initialize Web Player after becoming leader:', error);
+			});
+		} else if (!isLeader && webPlaybackService.hasPlayer()) {
+			console.log('This tab is now a follower, releasing Web Player');
+			webPlaybackService.disconnect();
+		}
+	}
+
+	private requestTokenFromLeader(staleToken: string | null): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				this.tokenWaiters = this.tokenWaiters.filter((waiter) => waiter !== done);
+				reject(new Error('Leader tab did not answer the token request'));
+			}, TOKEN_REQUEST_TIMEOUT_MS);
+
+			const done = (error?: Error) => {
+				clearTimeout(timeout);
+				if (error) {
+					reject(error);
+				} else {
+					resolve();
+				}
+			};
+
+			this.tokenWaiters.push(done);
+			this.broadcast({ type: 'token-request', staleToken });
+		});
+	}
+
+	private handleEnvelope({ accountId, message }: TabEnvelope): void {
+		if (accountId !== authSession.getAccountId()) {
+			// The leader cannot refresh tokens for an account it is not signed in to
+			if (message.type === 'token-request' && this.isLeaderTab) {
+				this.broadcast({ type: 'token-declined' }, accountId);
+			}
+			return;
+		}
+
+		this.handleMessage(message).catch((error) => {
+			console.error(`Failed to handle ${message.type} message from another tab:`, error);
+		});
+	}
+
+	private async handleMessage(message: TabMessage): Promise<void> {
+		switch (message.type) {
+			case 'token-request':
+				if (this.isLeaderTab) {
+					// Handing back the same token would make the follower refresh on its own and race us
+					const token = message.staleToken
+						? await authSession.handleUnauthorized(message.staleToken)
+						: await authSession.getValidToken();
+					this.broadcast({ type: token ? 'token-updated' : 'token-declined' });
+				}
+				break;
+			case 'token-updated':
+				authSession.syncFromStorage();
+				this.tokenWaiters.splice(0).forEach((waiter) => waiter());
+				break;
+			case 'token-declined':
+				this.tokenWaiters
+					.splice(0)
+					.forEach((waiter) => waiter(new Error('Leader tab could not provide a token')));
+				break;
+			case 'logged-out':
+				window.location.reload();
+				break;
+			case 'library-changed':
+				this.applyLibraryChange(message.trackIds, message.saved);
+				break;
+			case 'playlist-changed':
+				await this.applyPlaylistChange(message.playlistId, message.added, message.removed);
+				break;
+		}
+	}
+
+	private applyLibraryChange(trackIds: string[], saved: boolean): void {
+		const changed = new Set(trackIds);
+
+		userLibrary.update((library) => {
+			const updated = new Set(library);
+			trackIds.forEach((id) => (saved ? updated.add(id) : updated.delete(id)));
+			return updated;
+		});
+
+		const update = (track: SpotifyTrack): SpotifyTrack =>
+			changed.has(track.id) || (track.linked_from && changed.has(track.linked_from.id))
+				? { ...track, _isInLibrary: saved }
+				: track;
+
+		currentTracks.update((tracks) => tracks.map(update));
+		originalTrackOrder.update((tracks) => tracks.map(update));
+		currentTrack.update((track) => (track ? update(track) : track));
+	}
+
+	private async applyPlaylistChange(
+		playlistId: string,
+		added: string[] = [],
+		removed: string[] = []
+	): Promise<void> {
+		added.forEach((id) => targetPlaylistService.addTrackToPlaylistCache(playlistId, id));
+		removed.forEach((id) => targetPlaylistService.removeTrackFromPlaylistCache(playlistId, id));
+
+		if (targetPlaylistService.getCurrentPlaylistId() === playlistId) {
+			const update = (track: SpotifyTrack): SpotifyTrack =>
+				added.includes(track.id) || removed.includes(track.id)
+					? { ...track, _isInTargetPlaylist: added.includes(track.id) }
+					: track;
+			currentTracks.update((tracks) => tracks.map(update));
+			originalTrackOrder.update((tracks) => tracks.map(update));
+		}
+
+		if (get(selectedPlaylist)?.id === playlistId) {
+			await this.reloadSelectedPlaylist(playlistId);
+		}
+	}
+
+	private async reloadSelectedPlaylist(playlistId: string): Promise<void> {
+		console.log(`Playlist ${playlistId} changed in another tab, reloading tracks`);
+
+		try {
+			const { tracks, snapshotId } = await playlistCache.loadPlaylistTracks(playlistId);
+			if (get(selectedPlaylist)?.id !== playlistId) return;
+
+			const library = get(userLibrary);
+			const target = get(targetPlaylistTracks);
+			const decorated = tracks.map((track) => ({
+				...track,
+				_isInLibrary:
+					library.has(track.id) || (track.linked_from ? library.has(track.linked_from.id) : false),
+				_isInTargetPlaylist: target.has(track.id)
+			}));
+			const playingTrack = get(currentTrack);
+
+			isShuffleOn.set(false);
+			trackSortOrder.set('playlist');
+			currentTracks.set(decorated);
+			originalTrackOrder.set([...decorated]);
+			currentPlaylistSnapshot.set(snapshotId);
+			if (playingTrack) {
+				currentTrackIndex.set(decorated.findIndex((track) => track.uri === playingTrack.uri));
+			}
+		} catch (error) {
+			console.error('Failed to reload playlist changed in another tab:', error);
+		}
+	}
+}
+
+export const tabCoordinator = new TabCoordinator();
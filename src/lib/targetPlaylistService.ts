@@ -1,10 +1,11 @@
-import { spotifyAPI } from './spotify';
-import { targetPlaylistTracks, isTargetPlaylistLoading, targetPlaylist } from './stores';
+import { playlistCache } from './playlistCache';
+import { targetPlaylistTracks, isTargetPlaylistLoading, targetPlaylistLoadProgress, slotPlaylistTracks } from './stores';
 import { get } from 'svelte/store';
 
 class TargetPlaylistService {
 	private loadingPromise: Promise<void> | null = null;
 	private currentPlaylistId: string | null = null;
+	private slotLoads = new Map<string, Promise<void>>();
 
 	async loadTargetPlaylistTracks(playlistId: string): Promise<void> {
 		if (this.loadingPromise && this.currentPlaylistId === playlistId) {
@@ -20,7 +21,13 @@ class TargetPlaylistService {
 		try {
 			isTargetPlaylistLoading.set(true);
 			console.log(`Loading target playlist tracks for playlist: ${playlistId}...`);
-			const tracks = await spotifyAPI.getPlaylistTracks(playlistId);
+			const { tracks } = await playlistCache.loadPlaylistTracks(playlistId, (tracksSoFar, loaded, total) => {
+				if (this.currentPlaylistId !== playlistId) return;
+				targetPlaylistTracks.set(new Set(tracksSoFar.map(track => track.id)));
+				targetPlaylistLoadProgress.set({ loaded, total });
+			});
+			if (this.currentPlaylistId !== playlistId) return;
+
 			const trackIds = tracks.map(track => track.id);
 			targetPlaylistTracks.set(new Set(trackIds));
 			console.log(`Target playlist loaded with ${trackIds.length} tracks`);
@@ -28,8 +35,11 @@ class TargetPlaylistService {
 			console.error('Failed to load target playlist tracks:', error);
 			targetPlaylistTracks.set(new Set());
 		} finally {
-			isTargetPlaylistLoading.set(false);
-			this.loadingPromise = null;
+			if (this.currentPlaylistId === playlistId) {
+				isTargetPlaylistLoading.set(false);
+				targetPlaylistLoadProgress.set(null);
+				this.loadingPromise = null;
+			}
 		}
 	}
 
@@ -54,9 +64,81 @@ class TargetPlaylistService {
 		});
 	}
 
+	// Keeps every cached copy of a playlist in step, whether it is the target, a slot or both
+	addTrackToPlaylistCache(playlistId: string, trackId: string): void {
+		if (this.currentPlaylistId === playlistId) {
+			this.addTrackToCache(trackId);
+		}
+		this.updateSlotTracks(playlistId, tracks => tracks.add(trackId));
+	}
+
+	removeTrackFromPlaylistCache(playlistId: string, trackId: string): void {
+		if (this.currentPlaylistId === playlistId) {
+			this.removeTrackFromCache(trackId);
+		}
+		this.updateSlotTracks(playlistId, tracks => tracks.delete(trackId));
+	}
+
+	// Loads membership for newly configured slots and forgets slots that were removed
+	async syncSlots(playlistIds: string[]): Promise<void> {
+		const wanted = new Set(playlistIds);
+
+		slotPlaylistTracks.update(slots => {
+			const kept = Object.entries(slots).filter(([playlistId]) => wanted.has(playlistId));
+			return Object.fromEntries(kept);
+		});
+		[...this.slotLoads.keys()].forEach(playlistId => {
+			if (!wanted.has(playlistId)) this.slotLoads.delete(playlistId);
+		});
+
+		await Promise.all([...wanted].map(playlistId => this.loadSlotTracks(playlistId)));
+	}
+
+	private loadSlotTracks(playlistId: string): Promise<void> {
+		let load = this.slotLoads.get(playlistId);
+		if (!load) {
+			load = this.performSlotLoad(playlistId);
+			this.slotLoads.set(playlistId, load);
+		}
+		return load;
+	}
+
+	private async performSlotLoad(playlistId: string): Promise<void> {
+		try {
+			const { tracks } = await playlistCache.loadPlaylistTracks(playlistId);
+			if (!this.slotLoads.has(playlistId)) return;
+
+			slotPlaylistTracks.update(slots => ({ ...slots, [playlistId]: new Set(tracks.map(track => track.id)) }));
+			console.log(`Target slot playlist ${playlistId} loaded with ${tracks.length} tracks`);
+		} catch (error) {
+			console.error(`Failed to load target slot playlist ${playlistId}:`, error);
+			this.slotLoads.delete(playlistId);
+		}
+	}
+
+	private updateSlotTracks(playlistId: string, change: (tracks: Set<string>) => void): void {
+		slotPlaylistTracks.update(slots => {
+			if (!slots[playlistId]) return slots;
+
+			const tracks = new Set(slots[playlistId]);
+			change(tracks);
+			return { ...slots, [playlistId]: tracks };
+		});
+	}
+
+	isTrackInSlot(playlistId: string, trackId: string): boolean {
+		return get(slotPlaylistTracks)[playlistId]?.has(trackId) ?? false;
+	}
+
+	clearSlots(): void {
+		this.slotLoads.clear();
+		slotPlaylistTracks.set({});
+	}
+
 	clearTargetPlaylist(): void {
 		targetPlaylistTracks.set(new Set());
 		isTargetPlaylistLoading.set(false);
+		targetPlaylistLoadProgress.set(null);
 		this.currentPlaylistId = null;
 		this.loadingPromise = null;
 	}
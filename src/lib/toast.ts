@@ -1,10 +1,16 @@
 import { writable } from 'svelte/store';
 
+export interface ToastAction {
+	label: string;
+	run: () => void;
+}
+
 export interface Toast {
 	id: string;
 	message: string;
 	type: 'success' | 'error' | 'info' | 'warning';
 	duration?: number;
+	action?: ToastAction;
 }
 
 function createToastStore() {
@@ -1,19 +1,43 @@
 import { browser } from '$app/environment';
-import { spotifyAPI } from './spotify';
+import { authSession } from './authSession';
+import type { AuthSessionEvent } from './authSession';
 import { webPlaybackService } from './webPlayback';
+import { tabCoordinator } from './tabCoordinator';
+import { isAuthenticated } from './stores';
+import { toastStore } from './toast';
 
 class TokenManager {
 	private checkInterval: number | null = null;
 	private isVisible = true;
+	private unsubscribeAuth: (() => void) | null = null;
 
 	initialize(): void {
 		if (!browser) return;
 
 		document.addEventListener('visibilitychange', this.handleVisibilityChange.bind(this));
+		this.unsubscribeAuth?.();
+		this.unsubscribeAuth = authSession.subscribe(this.handleAuthEvent.bind(this));
 
 		this.startTokenCheck();
 	}
 
+	private handleAuthEvent(event: AuthSessionEvent): void {
+		if (event.type === 'expired') {
+			console.warn('Auth session expired, returning to login');
+			this.stopTokenCheck();
+			isAuthenticated.set(false);
+			toastStore.add({
+				message: 'Your Spotify session has expired. Please log in again.',
+				type: 'warning'
+			});
+		} else if (event.type === 'tokenRefreshed' && tabCoordinator.isLeader() && !webPlaybackService.getDeviceId()) {
+			console.log('Token refreshed while player is disconnected, attempting reconnect...');
+			webPlaybackService.reconnect().catch(error => {
+				console.error('Failed to reconnect player after token refresh:', error);
+			});
+		}
+	}
+
 	private handleVisibilityChange(): void {
 		if (!browser) return;
 		
@@ -49,15 +73,14 @@ class TokenManager {
 
 	private async checkTokenAndReconnect(): Promise<void> {
 		try {
-			const token = await spotifyAPI.ensureValidToken();
+			const token = await authSession.getValidToken();
 			if (!token) {
 				console.warn('No valid token available - user may need to re-login');
-				webPlaybackService.handleAuthenticationFailure();
 				return;
 			}
 
 			const deviceId = webPlaybackService.getDeviceId();
-			if (!deviceId) {
+			if (!deviceId && tabCoordinator.isLeader()) {
 				console.log('Player disconnected but token is valid, attempting reconnect...');
 				try {
 					await webPlaybackService.reconnect();
@@ -72,7 +95,7 @@ class TokenManager {
 
 	async checkAndRefreshToken(): Promise<boolean> {
 		try {
-			const token = await spotifyAPI.ensureValidToken();
+			const token = await authSession.getValidToken();
 			return !!token;
 		} catch (error) {
 			console.error('Manual token check failed:', error);
@@ -84,6 +107,8 @@ class TokenManager {
 		if (!browser) return;
 		
 		this.stopTokenCheck();
+		this.unsubscribeAuth?.();
+		this.unsubscribeAuth = null;
 		document.removeEventListener('visibilitychange', this.handleVisibilityChange.bind(this));
 	}
 }
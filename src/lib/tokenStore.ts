@@ -0,0 +1,219 @@
+// Framework-free token handling, shared by the browser session and headless callers (scripts, server routes)
+
+export const SPOTIFY_TOKEN_ENDPOINT = 'https://accounts.spotify.com/api/token';
+
+// Refresh a little before Spotify's expiry so in-flight requests never carry a stale token
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface AccountTokens {
+	accessToken: string;
+	refreshToken: string | null;
+	expiresAt: number;
+}
+
+export interface TokenStore {
+	load(): AccountTokens | null;
+	save(tokens: AccountTokens): void;
+	clear(): void;
+}
+
+// What SpotifyAPI needs from whoever owns the tokens
+export interface TokenProvider {
+	getValidToken(): Promise<string | null>;
+	handleUnauthorized(rejectedToken: string): Promise<string | null>;
+}
+
+export interface TokenResponse {
+	access_token: string;
+	refresh_token?: string;
+	expires_in: number;
+}
+
+export class TokenRequestRejectedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TokenRequestRejectedError';
+	}
+}
+
+export function toAccountTokens(
+	data: TokenResponse,
+	previousRefreshToken: string | null
+): AccountTokens {
+	return {
+		accessToken: data.access_token,
+		refreshToken: data.refresh_token ?? previousRefreshToken,
+		expiresAt: Date.now() + data.expires_in * 1000
+	};
+}
+
+export function isExpiring(tokens: AccountTokens | null): boolean {
+	if (!tokens?.expiresAt) return true;
+
+	return Date.now() >= tokens.expiresAt - REFRESH_MARGIN_MS;
+}
+
+export async function requestToken(
+	body: Record<string, string>,
+	fetchImpl: typeof fetch = fetch,
+	endpoint: string = SPOTIFY_TOKEN_ENDPOINT
+): Promise<TokenResponse> {
+	const response = await fetchImpl(endpoint, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded'
+		},
+		body: new URLSearchParams(body)
+	});
+
+	if (!response.ok) {
+		const error = await response.text();
+		if (response.status === 400 || response.status === 401) {
+			throw new TokenRequestRejectedError(`Token request rejected: ${error}`);
+		}
+		throw new Error(`Token request failed: ${response.status} ${error}`);
+	}
+
+	return response.json();
+}
+
+export class MemoryTokenStore implements TokenStore {
+	constructor(private tokens: AccountTokens | null = null) {}
+
+	load(): AccountTokens | null {
+		return this.tokens;
+	}
+
+	save(tokens: AccountTokens): void {
+		this.tokens = tokens;
+	}
+
+	clear(): void {
+		this.tokens = null;
+	}
+}
+
+export interface LocalStorageTokenKeys {
+	accessToken: string;
+	refreshToken: string;
+	expiresAt: string;
+}
+
+export class LocalStorageTokenStore implements TokenStore {
+	constructor(
+		private keys: LocalStorageTokenKeys = {
+			accessToken: 'spotify_access_token',
+			refreshToken: 'spotify_refresh_token',
+			expiresAt: 'spotify_token_expires_at'
+		}
+	) {}
+
+	load(): AccountTokens | null {
+		if (typeof localStorage === 'undefined') return null;
+
+		const accessToken = localStorage.getItem(this.keys.accessToken);
+		if (!accessToken) return null;
+
+		return {
+			accessToken,
+			refreshToken: localStorage.getItem(this.keys.refreshToken),
+			expiresAt: parseInt(localStorage.getItem(this.keys.expiresAt) || '0')
+		};
+	}
+
+	save(tokens: AccountTokens): void {
+		if (typeof localStorage === 'undefined') return;
+
+		localStorage.setItem(this.keys.accessToken, tokens.accessToken);
+		if (tokens.refreshToken) {
+			localStorage.setItem(this.keys.refreshToken, tokens.refreshToken);
+		}
+		localStorage.setItem(this.keys.expiresAt, tokens.expiresAt.toString());
+	}
+
+	clear(): void {
+		if (typeof localStorage === 'undefined') return;
+
+		localStorage.removeItem(this.keys.accessToken);
+		localStorage.removeItem(this.keys.refreshToken);
+		localStorage.removeItem(this.keys.expiresAt);
+	}
+}
+
+export interface StoredTokenSessionOptions {
+	clientId: string;
+	fetch?: typeof fetch;
+	tokenEndpoint?: string;
+}
+
+// Minimal refreshing session over any TokenStore, for callers without the browser auth flow
+export class StoredTokenSession implements TokenProvider {
+	private refreshPromise: Promise<string> | null = null;
+	private fetchImpl: typeof fetch;
+
+	constructor(
+		private store: TokenStore,
+		private options: StoredTokenSessionOptions
+	) {
+		this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+	}
+
+	async getValidToken(): Promise<string | null> {
+		const tokens = this.store.load();
+		if (!tokens) return null;
+
+		if (isExpiring(tokens) && tokens.refreshToken) {
+			return this.refresh();
+		}
+		return tokens.accessToken;
+	}
+
+	async handleUnauthorized(rejectedToken: string): Promise<string | null> {
+		const tokens = this.store.load();
+		if (tokens && tokens.accessToken !== rejectedToken) {
+			return tokens.accessToken;
+		}
+
+		try {
+			return await this.refresh();
+		} catch (error) {
+			console.error('Token refresh after 401 failed:', error);
+			return null;
+		}
+	}
+
+	refresh(): Promise<string> {
+		if (!this.refreshPromise) {
+			this.refreshPromise = this.performRefresh().finally(() => {
+				this.refreshPromise = null;
+			});
+		}
+		return this.refreshPromise;
+	}
+
+	private async performRefresh(): Promise<string> {
+		const refreshToken = this.store.load()?.refreshToken;
+		if (!refreshToken) {
+			throw new Error('No refresh token available');
+		}
+
+		try {
+			const data = await requestToken(
+				{
+					grant_type: 'refresh_token',
+					refresh_token: refreshToken,
+					client_id: this.options.clientId
+				},
+				this.fetchImpl,
+				this.options.tokenEndpoint
+			);
+			this.store.save(toAccountTokens(data, refreshToken));
+			return data.access_token;
+		} catch (error) {
+			if (error instanceof TokenRequestRejectedError) {
+				this.store.clear();
+			}
+			throw error;
+		}
+	}
+}
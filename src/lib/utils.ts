@@ -4,6 +4,16 @@ export function formatDuration(durationMs: number): string {
 	return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
+export function formatDateAdded(addedAt?: string | null): string {
+	if (!addedAt) return '';
+
+	const date = new Date(addedAt);
+	// Spotify reports items added before it tracked dates as the Unix epoch
+	if (Number.isNaN(date.getTime()) || date.getTime() === 0) return '';
+
+	return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
 export function formatTime(seconds: number): string {
 	const minutes = Math.floor(seconds / 60);
 	const remainingSeconds = Math.floor(seconds % 60);
@@ -30,9 +40,18 @@ export function isValidSpotifyPlaylistId(id: string): boolean {
 	return /^[a-zA-Z0-9]{22}$/.test(id);
 }
 
-export async function scrapeEveryNoiseTrackIds(playlistId: string): Promise<string[]> {
+export interface ScrapeOptions {
+	fetch?: typeof fetch;
+	// Origin of the Motify server, needed when not running in the browser
+	baseUrl?: string;
+}
+
+export async function scrapeEveryNoiseTrackIds(playlistId: string, options: ScrapeOptions = {}): Promise<string[]> {
+	const fetchImpl = options.fetch ?? fetch;
+	const baseUrl = options.baseUrl ?? '';
+
 	try {
-		const response = await fetch(`/api/scrape-everynoise?id=${encodeURIComponent(playlistId)}`);
+		const response = await fetchImpl(`${baseUrl}/api/scrape-everynoise?id=${encodeURIComponent(playlistId)}`);
 		
 		if (!response.ok) {
 			throw new Error(`HTTP error! status: ${response.status}`);
@@ -101,8 +120,18 @@ export async function scrapeEveryNoiseTrackIdsWithProxy(playlistId: string): Pro
 
 const trackPlayabilityCache = new Map<string, boolean>();
 
+// Keyboard shortcuts stay out of the way while the user is typing into a form field
+export function isTypingTarget(target: EventTarget | null): boolean {
+	return target instanceof HTMLElement
+		&& (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+export function isReadOnlyTrack(track: SpotifyTrack): boolean {
+	return track.type === 'episode' || !!track.is_local;
+}
+
 export function isTrackPlayable(track: any): boolean {
-	if (!track || !track.id || !track.name) {
+	if (!track || !track.id || !track.name || isReadOnlyTrack(track)) {
 		return false;
 	}
 
@@ -167,9 +196,16 @@ export function findNextPlayableTrack(tracks: any[], startIndex: number, directi
 	return -1;
 }
 
+// Everything above is plain data handling that also runs in Node. Playback and the track mutations below
+// work on the app's Svelte stores and load the browser services on demand
 import type { Writable } from 'svelte/store';
 import { get } from 'svelte/store';
-import type { SpotifyTrack } from './spotify';
+import type { SpotifyPlaylist, SpotifyTrack } from './spotify';
+import type { TrackSortOrder } from './stores';
+import type { HistoryEntry, MutationCommand } from './historyService';
+import type { ToastAction } from './toast';
+import type { OutboxResult, OutboxStep } from './mutationOutbox';
+import { PlaylistConflictError, SpotifyApiError, getSpotifyErrorMessage } from './spotifyErrors';
 
 interface PlaybackStores {
 	isPlaying: Writable<boolean>;
@@ -180,6 +216,8 @@ interface PlaybackStores {
 	trackDuration: Writable<number>;
 	selectedPlaylist: Writable<any>;
 	targetPlaylist: Writable<any>;
+	originalTrackOrder?: Writable<SpotifyTrack[]>;
+	currentPlaylistSnapshot?: Writable<string | null>;
 }
 
 interface PlaybackServices {
@@ -198,12 +236,15 @@ export async function playTrack(
 
 	if (!isTrackPlayable(track)) {
 		console.log('Track is not playable, skipping:', track.name);
-		alert(`This track is not available for playback: ${track.name}`);
+		services.toastStore?.add({
+			message: `This track is not available for playback: ${track.name}`,
+			type: 'warning'
+		});
 		return false;
 	}
 	
 	const deviceId = services.webPlaybackService.getDeviceId();
-	const trackIndex = tracks.findIndex(t => t.id === track.id);
+	const trackIndex = tracks.findIndex(t => isSameTrackRow(t, track));
 
 	if (!deviceId) {
 		stores.currentTrack.set(track);
@@ -267,18 +308,16 @@ export async function playTrack(
 		stores.isPlaying.set(false);
 		stores.playbackPosition.set(0);
 		
-		const errorMessage = typeof lastError === 'object' && lastError !== null && 'message' in lastError
-			? (lastError as { message: string }).message
-			: String(lastError);
-		
-		console.error('Showing error to user:', errorMessage);
+		console.error('Showing error to user:', lastError);
 
-		if (errorMessage.includes('Premium') || errorMessage.includes('403')) {
-			alert('Spotify Premium is required for track playback. Please upgrade your Spotify account to Premium to use this feature.');
-		} else if (errorMessage.includes('Device not found') || errorMessage.includes('404')) {
-			alert('Playback device not found. Please make sure Spotify is open and try again.');
-		} else {
-			alert(`Failed to play track: ${errorMessage}. Make sure you have Spotify Premium and try again.`);
+		if (services.toastStore) {
+			services.toastStore.add({
+				message: lastError instanceof SpotifyApiError
+					? getSpotifyErrorMessage(lastError)
+					: `Failed to play track: ${getSpotifyErrorMessage(lastError)}`,
+				type: 'error',
+				duration: 6000
+			});
 		}
 	}
 
@@ -491,45 +530,371 @@ export async function playNextTrack(
 	}
 }
 
+export function sortTracksByDateAdded(tracks: SpotifyTrack[], order: TrackSortOrder): SpotifyTrack[] {
+	if (order === 'playlist') {
+		return [...tracks];
+	}
+
+	const direction = order === 'added-asc' ? 1 : -1;
+	return [...tracks].sort((a, b) => {
+		const aTime = a._addedAt ? Date.parse(a._addedAt) : 0;
+		const bTime = b._addedAt ? Date.parse(b._addedAt) : 0;
+		if (aTime !== bTime) {
+			return (aTime - bTime) * direction;
+		}
+		return (a._position ?? 0) - (b._position ?? 0);
+	});
+}
+
+export function isSameTrackRow(a: SpotifyTrack, b: SpotifyTrack): boolean {
+	if (a._position !== undefined && b._position !== undefined) {
+		return a._position === b._position;
+	}
+	return a.id === b.id;
+}
+
+export function removeTrackRow(tracks: SpotifyTrack[], removed: SpotifyTrack): SpotifyTrack[] {
+	const removedPosition = removed._position;
+
+	return tracks
+		.filter(t => !isSameTrackRow(t, removed))
+		.map(t => removedPosition !== undefined && t._position !== undefined && t._position > removedPosition
+			? { ...t, _position: t._position - 1 }
+			: t
+		);
+}
+
+async function reloadPlaylistAfterConflict(
+	playlistId: string,
+	stores: PlaybackStores
+): Promise<void> {
+	console.warn(`Playlist ${playlistId} changed remotely, reloading tracks`);
+
+	const { playlistCache } = await import('./playlistCache');
+
+	try {
+		const { tracks, snapshotId } = await playlistCache.loadPlaylistTracks(playlistId);
+		stores.currentTracks.set(tracks);
+		stores.originalTrackOrder?.set([...tracks]);
+		stores.currentPlaylistSnapshot?.set(snapshotId);
+	} catch (error) {
+		console.error('Failed to reload playlist after conflict:', error);
+	}
+}
+
+async function broadcastPlaylistChange(
+	playlistId: string,
+	change: { added?: string[]; removed?: string[] } = {}
+): Promise<void> {
+	const { tabCoordinator } = await import('./tabCoordinator');
+	tabCoordinator.broadcast({ type: 'playlist-changed', playlistId, ...change });
+}
+
+// Liked Songs edits go through /me/tracks, so the library store has to hear about them too
+async function recordLikedSongsChange(playlistId: string, track: SpotifyTrack, saved: boolean): Promise<void> {
+	const { isLikedSongs } = await import('./spotify');
+	if (!isLikedSongs(playlistId)) return;
+
+	const { libraryService } = await import('./libraryService');
+	const linkedFromId = track.linked_from?.id;
+	libraryService.recordSavedChange(
+		saved ? [linkedFromId || track.id] : [track.id, ...(linkedFromId ? [linkedFromId] : [])],
+		saved
+	);
+}
+
+interface PlaylistChange {
+	track: SpotifyTrack;
+	playlistId: string;
+	added: boolean;
+	position?: number;
+	snapshotId?: string | null;
+}
+
+// Sends every change as one outbox entry, so Spotify ends up with all of them or none
+async function submitPlaylistChanges(label: string, changes: PlaylistChange[]): Promise<OutboxResult> {
+	const { getOperationalUri } = await import('./spotify');
+	const { mutationOutbox } = await import('./mutationOutbox');
+	const { targetPlaylistService } = await import('./targetPlaylistService');
+
+	const steps: OutboxStep[] = changes.map(({ track, playlistId, added, position, snapshotId }) => added
+		? { type: 'add-to-playlist', playlistId, trackUri: getOperationalUri(track), trackId: track.id, position }
+		: { type: 'remove-from-playlist', playlistId, trackUri: getOperationalUri(track), trackId: track.id, position, snapshotId }
+	);
+	const result = await mutationOutbox.submit(label, steps);
+
+	for (const { track, playlistId, added } of changes) {
+		if (added) {
+			targetPlaylistService.addTrackToPlaylistCache(playlistId, track.id);
+		} else {
+			targetPlaylistService.removeTrackFromPlaylistCache(playlistId, track.id);
+		}
+		await broadcastPlaylistChange(playlistId, added ? { added: [track.id] } : { removed: [track.id] });
+		await recordLikedSongsChange(playlistId, track, added);
+	}
+
+	return result;
+}
+
+// Passing moveToPlaylistId adds the track there in the same outbox entry as the removal
 async function removeTrackFromPlaylist(
 	track: SpotifyTrack,
 	playlistId: string,
-	services: PlaybackServices
+	label: string,
+	stores: PlaybackStores,
+	moveToPlaylistId?: string
 ): Promise<void> {
 	const { getOperationalUri, isTrackRelinked } = await import('./spotify');
 	
 	const operationalUri = getOperationalUri(track);
 	const isRelinked = isTrackRelinked(track);
-	console.log(`Removing track "${track.name}" from playlist - Relinked: ${isRelinked}, Using URI: ${operationalUri}${isRelinked ? ` (original: ${track.uri})` : ''}`);
+	const snapshotId = stores.currentPlaylistSnapshot ? get(stores.currentPlaylistSnapshot) : null;
+	console.log(`Removing track "${track.name}" from playlist at position ${track._position ?? 'unknown'} - Relinked: ${isRelinked}, Using URI: ${operationalUri}${isRelinked ? ` (original: ${track.uri})` : ''}`);
 	
-	await services.spotifyAPI.removeTrackFromPlaylist(playlistId, operationalUri);
+	try {
+		const { status, snapshots } = await submitPlaylistChanges(label, [
+			...(moveToPlaylistId ? [{ track, playlistId: moveToPlaylistId, added: true }] : []),
+			{ track, playlistId, added: false, position: track._position, snapshotId }
+		]);
+
+		// A queued removal leaves the playlist's next snapshot unknown, so skip the conflict check until it reloads
+		if (status === 'queued') {
+			stores.currentPlaylistSnapshot?.set(null);
+		} else if (snapshots[playlistId]) {
+			stores.currentPlaylistSnapshot?.set(snapshots[playlistId]);
+		}
+	} catch (error) {
+		if (error instanceof PlaylistConflictError) {
+			await reloadPlaylistAfterConflict(playlistId, stores);
+		}
+		throw error;
+	}
 }
 
-async function addTrackToPlaylist(
+async function isTrackInPlaylist(
 	track: SpotifyTrack,
 	playlistId: string,
-	services: PlaybackServices,
+	handleAPIError: <T>(apiCall: () => Promise<T>) => Promise<T | null>
+): Promise<boolean> {
+	const { playlistCache } = await import('./playlistCache');
+
+	const targetResult = await handleAPIError(() => playlistCache.loadPlaylistTracks(playlistId));
+	const targetTracks = targetResult?.tracks;
+	return !!targetTracks && Array.isArray(targetTracks) && targetTracks.some((t: SpotifyTrack) => t.id === track.id);
+}
+
+async function addTrackToPlaylist(
+	track: SpotifyTrack,
+	playlist: SpotifyPlaylist,
 	handleAPIError: <T>(apiCall: () => Promise<T>) => Promise<T | null>
 ): Promise<boolean> {
 	const { getOperationalUri, isTrackRelinked } = await import('./spotify');
-	const { targetPlaylistService } = await import('./targetPlaylistService');
 	
 	const operationalUri = getOperationalUri(track);
 	const isRelinked = isTrackRelinked(track);
 	console.log(`Adding track "${track.name}" to playlist - Relinked: ${isRelinked}, Using URI: ${operationalUri}${isRelinked ? ` (original: ${track.uri})` : ''}`);
 
-	const targetTracks = await handleAPIError(() => services.spotifyAPI.getPlaylistTracks(playlistId));
-	const trackAlreadyExists = targetTracks && Array.isArray(targetTracks) && targetTracks.some((t: SpotifyTrack) => t.id === track.id);
-	
-	if (!trackAlreadyExists) {
-		await services.spotifyAPI.addTrackToPlaylist(playlistId, operationalUri);
-		targetPlaylistService.addTrackToCache(track.id);
+	if (!(await isTrackInPlaylist(track, playlist.id, handleAPIError))) {
+		await putTrackInPlaylist(track, playlist.id, `Add "${track.name}" to ${playlist.name}`);
 		return true;
 	}
 	
 	return false;
 }
 
+async function putTrackInPlaylist(
+	track: SpotifyTrack,
+	playlistId: string,
+	label: string,
+	position?: number
+): Promise<string | null> {
+	const { snapshots } = await submitPlaylistChanges(label, [{ track, playlistId, added: true, position }]);
+	return snapshots[playlistId] ?? null;
+}
+
+async function takeTrackOutOfPlaylist(
+	track: SpotifyTrack,
+	playlistId: string,
+	label: string
+): Promise<void> {
+	await submitPlaylistChanges(label, [{ track, playlistId, added: false }]);
+}
+
+export function insertTrackRow(tracks: SpotifyTrack[], restored: SpotifyTrack, index: number): SpotifyTrack[] {
+	const insertedPosition = restored._position;
+	const shifted = tracks.map(t => insertedPosition !== undefined && t._position !== undefined && t._position >= insertedPosition
+		? { ...t, _position: t._position + 1 }
+		: t
+	);
+	const at = Math.max(0, Math.min(index, shifted.length));
+
+	return [...shifted.slice(0, at), restored, ...shifted.slice(at)];
+}
+
+// Puts a removed track back at its old position in Spotify and its old row on screen,
+// taking it out of takeFromPlaylistId in the same outbox entry when undoing a move
+async function restoreTrack(
+	track: SpotifyTrack,
+	playlistId: string,
+	index: number,
+	position: number | undefined,
+	label: string,
+	stores: PlaybackStores,
+	takeFromPlaylistId?: string
+): Promise<void> {
+	const { status, snapshots } = await submitPlaylistChanges(label, [
+		{ track, playlistId, added: true, position },
+		...(takeFromPlaylistId ? [{ track, playlistId: takeFromPlaylistId, added: false }] : [])
+	]);
+	if (get(stores.selectedPlaylist)?.id !== playlistId) return;
+
+	if (status === 'queued') {
+		stores.currentPlaylistSnapshot?.set(null);
+	} else if (snapshots[playlistId]) {
+		stores.currentPlaylistSnapshot?.set(snapshots[playlistId]);
+	}
+
+	const restored: SpotifyTrack = { ...track, _position: position, _addedAt: new Date().toISOString() };
+	stores.currentTracks.update(tracks => insertTrackRow(tracks, restored, index));
+	stores.originalTrackOrder?.update(order => {
+		const orderIndex = position === undefined ? index : order.findIndex(t => (t._position ?? -1) >= position);
+		return insertTrackRow(order, restored, orderIndex === -1 ? order.length : orderIndex);
+	});
+	stores.currentTrackIndex.update(current => (current >= index ? current + 1 : current));
+}
+
+async function removeTrackAgain(
+	track: SpotifyTrack,
+	playlistId: string,
+	position: number | undefined,
+	label: string,
+	stores: PlaybackStores,
+	moveToPlaylistId?: string
+): Promise<void> {
+	const row: SpotifyTrack = { ...track, _position: position };
+	const isSelected = get(stores.selectedPlaylist)?.id === playlistId;
+
+	// The snapshot store belongs to the selected playlist, so it can't vouch for any other one
+	await removeTrackFromPlaylist(row, playlistId, label, isSelected ? stores : { ...stores, currentPlaylistSnapshot: undefined }, moveToPlaylistId);
+	if (!isSelected) return;
+
+	const rowIndex = get(stores.currentTracks).findIndex(t => isSameTrackRow(t, row));
+	stores.currentTracks.update(tracks => removeTrackRow(tracks, row));
+	stores.originalTrackOrder?.update(order => removeTrackRow(order, row));
+	if (rowIndex !== -1) {
+		stores.currentTrackIndex.update(current => (current > rowIndex ? current - 1 : current));
+	}
+}
+
+async function setTrackSaved(track: SpotifyTrack, saved: boolean, label: string): Promise<void> {
+	const { libraryService } = await import('./libraryService');
+	const linkedFromId = track.linked_from?.id;
+
+	if (libraryService.isTrackInLibrary(track.id, linkedFromId) !== saved) {
+		await libraryService.toggleTrackInLibrary(track.id, linkedFromId, label);
+	}
+}
+
+async function undoMutation(command: MutationCommand, label: string, stores?: PlaybackStores): Promise<void> {
+	const undoLabel = `Undo: ${label}`;
+
+	if (command.type === 'library-toggle') {
+		return setTrackSaved(command.track, !command.saved, undoLabel);
+	}
+	if (command.type === 'playlist-toggle') {
+		if (command.added) {
+			await takeTrackOutOfPlaylist(command.track, command.playlistId, undoLabel);
+		} else {
+			await putTrackInPlaylist(command.track, command.playlistId, undoLabel);
+		}
+		return;
+	}
+	if (command.type === 'bulk-remove') {
+		const { playlistService } = await import('./playlistService');
+		// After a partly failed undo only the rows still missing go back, so a retry adds no duplicates
+		const pending = command.pendingTracks ?? command.tracks;
+		const { failed, restored, snapshotId } = await playlistService.bulkRestoreTracks(command.playlistId, pending);
+		command.snapshotId = snapshotId;
+		command.pendingTracks = failed > 0 ? pending.filter(track => !restored.includes(track)) : undefined;
+		if (failed > 0) {
+			throw new Error(`${failed} of ${command.tracks.length} tracks could not be restored`);
+		}
+		return;
+	}
+	if (!stores) return;
+
+	if (command.type === 'move') {
+		await restoreTrack(
+			command.track,
+			command.fromPlaylistId,
+			command.index,
+			command.position,
+			undoLabel,
+			stores,
+			command.addedToDestination ? command.toPlaylistId : undefined
+		);
+		return;
+	}
+
+	await restoreTrack(command.track, command.playlistId, command.index, command.position, undoLabel, stores);
+}
+
+async function redoMutation(command: MutationCommand, label: string, stores?: PlaybackStores): Promise<void> {
+	if (command.type === 'library-toggle') {
+		return setTrackSaved(command.track, command.saved, label);
+	}
+	if (command.type === 'playlist-toggle') {
+		if (command.added) {
+			await putTrackInPlaylist(command.track, command.playlistId, label);
+		} else {
+			await takeTrackOutOfPlaylist(command.track, command.playlistId, label);
+		}
+		return;
+	}
+	if (command.type === 'bulk-remove') {
+		const { playlistService } = await import('./playlistService');
+		// Without the snapshot from the undo the old positions can't be trusted, so a changed playlist fails instead
+		const { failed } = await playlistService.bulkRemoveTracks(command.playlistId, command.tracks, command.snapshotId);
+		if (failed > 0) {
+			throw new Error(`${failed} of ${command.tracks.length} tracks could not be removed again`);
+		}
+		return;
+	}
+	if (!stores) return;
+
+	if (command.type === 'move') {
+		await removeTrackAgain(
+			command.track,
+			command.fromPlaylistId,
+			command.position,
+			label,
+			stores,
+			command.addedToDestination ? command.toPlaylistId : undefined
+		);
+		return;
+	}
+
+	await removeTrackAgain(command.track, command.playlistId, command.position, label, stores);
+}
+
+// Records the mutation for Ctrl+Z and returns the matching Undo button for its toast
+export async function recordMutation(
+	command: MutationCommand,
+	label: string,
+	stores?: PlaybackStores
+): Promise<ToastAction> {
+	const { historyService } = await import('./historyService');
+	const entry: HistoryEntry = {
+		command,
+		label,
+		undo: () => undoMutation(command, label, stores),
+		redo: () => redoMutation(command, label, stores)
+	};
+
+	historyService.record(entry);
+	return { label: 'Undo', run: () => historyService.undo(entry) };
+}
+
 export async function removeTrack(
 	track: SpotifyTrack,
 	tracks: SpotifyTrack[],
@@ -551,19 +916,30 @@ export async function removeTrack(
 		return tracks;
 	}
 	
-	const isCurrentlyPlaying = (currentTrack as unknown as SpotifyTrack)?.id === track.id;
-	const currentIndex = tracks.findIndex(t => t.id === track.id);
+	const playingRow = tracks[get(stores.currentTrackIndex)];
+	const isCurrentlyPlaying = (currentTrack as unknown as SpotifyTrack)?.id === track.id && (!playingRow || isSameTrackRow(playingRow, track));
+	const currentIndex = tracks.findIndex(t => isSameTrackRow(t, track));
 	
+	const snapshotId = stores.currentPlaylistSnapshot ? get(stores.currentPlaylistSnapshot) : null;
+
 	try {
-		await removeTrackFromPlaylist(track, selectedPlaylist.id, services);
+		await removeTrackFromPlaylist(track, selectedPlaylist.id, `Remove "${track.name}" from ${selectedPlaylist.name}`, stores);
 
-		const updatedTracks = tracks.filter(t => t.id !== track.id);
+		const updatedTracks = removeTrackRow(tracks, track);
 		stores.currentTracks.set(updatedTracks);
+		stores.originalTrackOrder?.update(order => removeTrackRow(order, track));
+
+		const undo = await recordMutation(
+			{ type: 'remove', track, playlistId: selectedPlaylist.id, index: currentIndex, position: track._position, snapshotId },
+			`Remove "${track.name}" from ${selectedPlaylist.name}`,
+			stores
+		);
 
 		if (services.toastStore) {
 			services.toastStore.add({
 				message: `Removed "${track.name}" from ${selectedPlaylist.name}`,
-				type: 'success'
+				type: 'success',
+				action: undo
 			});
 		}
 
@@ -596,7 +972,7 @@ export async function removeTrack(
 
 		if (services.toastStore) {
 			services.toastStore.add({
-				message: `Failed to remove "${track.name}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+				message: `Failed to remove "${track.name}": ${getSpotifyErrorMessage(error)}`,
 				type: 'error'
 			});
 		}
@@ -610,7 +986,8 @@ export async function moveTrack(
 	tracks: SpotifyTrack[],
 	stores: PlaybackStores,
 	services: PlaybackServices,
-	handleAPIError: <T>(apiCall: () => Promise<T>) => Promise<T | null>
+	handleAPIError: <T>(apiCall: () => Promise<T>) => Promise<T | null>,
+	destination?: SpotifyPlaylist
 ): Promise<SpotifyTrack[]> {
 	let selectedPlaylist: any = null;
 	let targetPlaylist: any = null;
@@ -623,43 +1000,71 @@ export async function moveTrack(
 	selectedPlaylistUnsub();
 	targetPlaylistUnsub();
 	currentTrackUnsub();
+
+	// Target slots move to their own playlist instead of the target
+	const isTargetDestination = !destination || destination.id === targetPlaylist?.id;
+	targetPlaylist = destination ?? targetPlaylist;
 	
 	if (!targetPlaylist || !selectedPlaylist) {
 		console.error('No target or selected playlist');
 		return tracks;
 	}
 	
-	const isCurrentlyPlaying = (currentTrack as unknown as SpotifyTrack)?.id === track.id;
-	const currentIndex = tracks.findIndex(t => t.id === track.id);
+	const playingRow = tracks[get(stores.currentTrackIndex)];
+	const isCurrentlyPlaying = (currentTrack as unknown as SpotifyTrack)?.id === track.id && (!playingRow || isSameTrackRow(playingRow, track));
+	const currentIndex = tracks.findIndex(t => isSameTrackRow(t, track));
 	
+	const snapshotId = stores.currentPlaylistSnapshot ? get(stores.currentPlaylistSnapshot) : null;
+
 	try {
-		const trackWasAdded = await addTrackToPlaylist(track, targetPlaylist.id, services, handleAPIError);
+		const trackWasAdded = !(await isTrackInPlaylist(track, targetPlaylist.id, handleAPIError));
+		const label = `Move "${track.name}" from ${selectedPlaylist.name} to ${targetPlaylist.name}`;
 
-		await removeTrackFromPlaylist(track, selectedPlaylist.id, services);
+		await removeTrackFromPlaylist(track, selectedPlaylist.id, label, stores, trackWasAdded ? targetPlaylist.id : undefined);
 
-		const updatedTracks = tracks.filter(t => t.id !== track.id);
+		const updatedTracks = removeTrackRow(tracks, track);
 		stores.currentTracks.set(updatedTracks);
-
-		try {
-			const updatedTargetPlaylist = await handleAPIError(() => services.spotifyAPI.getPlaylist(targetPlaylist.id));
-			if (updatedTargetPlaylist) {
-				stores.targetPlaylist.set(updatedTargetPlaylist);
-				console.log(`Updated target playlist "${targetPlaylist.name}" with latest data from API`);
+		stores.originalTrackOrder?.update(order => removeTrackRow(order, track));
+
+		const undo = await recordMutation(
+			{
+				type: 'move',
+				track,
+				fromPlaylistId: selectedPlaylist.id,
+				toPlaylistId: targetPlaylist.id,
+				index: currentIndex,
+				position: track._position,
+				snapshotId,
+				addedToDestination: trackWasAdded
+			},
+			label,
+			stores
+		);
+
+		if (isTargetDestination) {
+			try {
+				const updatedTargetPlaylist = await handleAPIError(() => services.spotifyAPI.getPlaylist(targetPlaylist.id));
+				if (updatedTargetPlaylist) {
+					stores.targetPlaylist.set(updatedTargetPlaylist);
+					console.log(`Updated target playlist "${targetPlaylist.name}" with latest data from API`);
+				}
+			} catch (error) {
+				console.warn('Failed to refresh target playlist data:', error);
 			}
-		} catch (error) {
-			console.warn('Failed to refresh target playlist data:', error);
 		}
 
 		if (services.toastStore) {
 			if (!trackWasAdded) {
 				services.toastStore.add({
 					message: `"${track.name}" was already in ${targetPlaylist.name}, removed from ${selectedPlaylist.name}`,
-					type: 'info'
+					type: 'info',
+					action: undo
 				});
 			} else {
 				services.toastStore.add({
 					message: `Moved "${track.name}" from ${selectedPlaylist.name} to ${targetPlaylist.name}`,
-					type: 'success'
+					type: 'success',
+					action: undo
 				});
 			}
 		}
@@ -693,7 +1098,7 @@ export async function moveTrack(
 
 		if (services.toastStore) {
 			services.toastStore.add({
-				message: `Failed to move "${track.name}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+				message: `Failed to move "${track.name}": ${getSpotifyErrorMessage(error)}`,
 				type: 'error'
 			});
 		}
@@ -702,6 +1107,44 @@ export async function moveTrack(
 	}
 }
 
+export async function copyTrackToPlaylist(
+	track: SpotifyTrack,
+	playlist: SpotifyPlaylist,
+	services: PlaybackServices,
+	handleAPIError: <T>(apiCall: () => Promise<T>) => Promise<T | null>
+): Promise<boolean> {
+	try {
+		const trackWasAdded = await addTrackToPlaylist(track, playlist, handleAPIError);
+		const undo = trackWasAdded
+			? await recordMutation(
+				{ type: 'playlist-toggle', track, playlistId: playlist.id, added: true },
+				`Add "${track.name}" to ${playlist.name}`
+			)
+			: undefined;
+
+		if (services.toastStore) {
+			services.toastStore.add({
+				message: trackWasAdded ? `Added "${track.name}" to ${playlist.name}` : `"${track.name}" was already in ${playlist.name}`,
+				type: trackWasAdded ? 'success' : 'info',
+				action: undo
+			});
+		}
+
+		return trackWasAdded;
+	} catch (error) {
+		console.error('Failed to copy track:', error);
+
+		if (services.toastStore) {
+			services.toastStore.add({
+				message: `Failed to copy "${track.name}": ${getSpotifyErrorMessage(error)}`,
+				type: 'error'
+			});
+		}
+
+		return false;
+	}
+}
+
 export async function toggleTrackInLibrary(
 	track: SpotifyTrack,
 	services: PlaybackServices
@@ -710,14 +1153,20 @@ export async function toggleTrackInLibrary(
 	
 	try {
 		const linkedFromId = track.linked_from?.id;
-		const isNowInLibrary = await libraryService.toggleTrackInLibrary(track.id, linkedFromId);
+		const label = libraryService.isTrackInLibrary(track.id, linkedFromId) ? `Unlike "${track.name}"` : `Like "${track.name}"`;
+		const isNowInLibrary = await libraryService.toggleTrackInLibrary(track.id, linkedFromId, label);
+		const undo = await recordMutation(
+			{ type: 'library-toggle', track, saved: isNowInLibrary },
+			isNowInLibrary ? `Like "${track.name}"` : `Unlike "${track.name}"`
+		);
 		
 		if (services.toastStore) {
 			services.toastStore.add({
 				message: isNowInLibrary 
 					? `Added "${track.name}" to your library` 
 					: `Removed "${track.name}" from your library`,
-				type: 'success'
+				type: 'success',
+				action: undo
 			});
 		}
 		
@@ -727,7 +1176,7 @@ export async function toggleTrackInLibrary(
 		
 		if (services.toastStore) {
 			services.toastStore.add({
-				message: `Failed to update library: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				message: `Failed to update library: ${getSpotifyErrorMessage(error)}`,
 				type: 'error'
 			});
 		}
@@ -744,6 +1193,7 @@ export async function toggleTrackInTargetPlaylist(
 ): Promise<boolean> {
 	const { targetPlaylistService } = await import('./targetPlaylistService');
 	const { getOperationalUri, isTrackRelinked } = await import('./spotify');
+	const { playlistCache } = await import('./playlistCache');
 	
 	let targetPlaylist: any = null;
 	const targetPlaylistUnsub = stores.targetPlaylist.subscribe((value: any) => { targetPlaylist = value; });
@@ -761,8 +1211,11 @@ export async function toggleTrackInTargetPlaylist(
 		
 		if (isInPlaylist) {
 			console.log(`Removing track "${track.name}" from target playlist - Relinked: ${isRelinked}, Using URI: ${operationalUri}${isRelinked ? ` (original: ${track.uri})` : ''}`);
-			await services.spotifyAPI.removeTrackFromPlaylist(targetPlaylist.id, operationalUri);
-			targetPlaylistService.removeTrackFromCache(track.id);
+			await takeTrackOutOfPlaylist(track, targetPlaylist.id, `Remove "${track.name}" from ${targetPlaylist.name}`);
+			const undo = await recordMutation(
+				{ type: 'playlist-toggle', track, playlistId: targetPlaylist.id, added: false },
+				`Remove "${track.name}" from ${targetPlaylist.name}`
+			);
 
 			try {
 				const updatedTargetPlaylist = await handleAPIError(() => services.spotifyAPI.getPlaylist(targetPlaylist.id));
@@ -776,7 +1229,8 @@ export async function toggleTrackInTargetPlaylist(
 			if (services.toastStore) {
 				services.toastStore.add({
 					message: `Removed "${track.name}" from ${targetPlaylist.name}`,
-					type: 'success'
+					type: 'success',
+					action: undo
 				});
 			}
 			
@@ -784,12 +1238,17 @@ export async function toggleTrackInTargetPlaylist(
 		} else {
 			console.log(`Adding track "${track.name}" to target playlist - Relinked: ${isRelinked}, Using URI: ${operationalUri}${isRelinked ? ` (original: ${track.uri})` : ''}`);
 
-			const targetTracks = await handleAPIError(() => services.spotifyAPI.getPlaylistTracks(targetPlaylist.id));
+			const targetResult = await handleAPIError(() => playlistCache.loadPlaylistTracks(targetPlaylist.id));
+			const targetTracks = targetResult?.tracks;
 			const trackAlreadyExists = targetTracks && Array.isArray(targetTracks) && targetTracks.some((t: SpotifyTrack) => t.id === track.id);
 			
+			let undo: ToastAction | undefined;
 			if (!trackAlreadyExists) {
-				await services.spotifyAPI.addTrackToPlaylist(targetPlaylist.id, operationalUri);
-				targetPlaylistService.addTrackToCache(track.id);
+				await putTrackInPlaylist(track, targetPlaylist.id, `Add "${track.name}" to ${targetPlaylist.name}`);
+				undo = await recordMutation(
+					{ type: 'playlist-toggle', track, playlistId: targetPlaylist.id, added: true },
+					`Add "${track.name}" to ${targetPlaylist.name}`
+				);
 			}
 
 			try {
@@ -810,7 +1269,8 @@ export async function toggleTrackInTargetPlaylist(
 				} else {
 					services.toastStore.add({
 						message: `Added "${track.name}" to ${targetPlaylist.name}`,
-						type: 'success'
+						type: 'success',
+						action: undo
 					});
 				}
 			}
@@ -822,7 +1282,7 @@ export async function toggleTrackInTargetPlaylist(
 		
 		if (services.toastStore) {
 			services.toastStore.add({
-				message: `Failed to update "${track.name}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+				message: `Failed to update "${track.name}": ${getSpotifyErrorMessage(error)}`,
 				type: 'error'
 			});
 		}
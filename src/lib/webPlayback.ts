@@ -1,4 +1,5 @@
 import { spotifyAPI } from './spotify';
+import { authSession } from './authSession';
 import { isPlaying, currentTrack, playbackPosition, trackDuration } from './stores';
 import { get } from 'svelte/store';
 
@@ -53,6 +54,11 @@ class WebPlaybackService {
     private isInitialized = false;
 
     constructor() {
+		authSession.subscribe((event) => {
+			if (event.type === 'expired' || event.type === 'loggedOut') {
+				this.handleAuthenticationFailure();
+			}
+		});
     }
 
     private getDeviceName(): string {
@@ -97,7 +103,7 @@ class WebPlaybackService {
 	}
 
 	private setupPlayer(): void {
-		const token = spotifyAPI.getAccessToken();
+		const token = authSession.getAccessToken();
 		if (!token) {
 			console.error('No access token available for Web Playback SDK');
 			return;
@@ -106,22 +112,14 @@ class WebPlaybackService {
 		this.player = new window.Spotify.Player({
 			name: this.getDeviceName(),
 			getOAuthToken: (cb) => {
-				spotifyAPI.ensureValidToken().then(token => {
+				authSession.getValidToken().then(token => {
 					if (token) {
 						cb(token);
 					} else {
 						console.warn('No valid token available for Web Playback SDK');
-						const fallbackToken = spotifyAPI.getAccessToken();
-						if (fallbackToken) {
-							cb(fallbackToken);
-						}
 					}
 				}).catch(error => {
 					console.error('Error getting token for Web Playback SDK:', error);
-					const fallbackToken = spotifyAPI.getAccessToken();
-					if (fallbackToken) {
-						cb(fallbackToken);
-					}
 				});
 			},
 			volume: 0.8
@@ -135,11 +133,7 @@ class WebPlaybackService {
 			console.error('Spotify Player authentication error:', message);
 			this.handleAuthenticationFailure();
 
-			spotifyAPI.ensureValidToken().then(token => {
-				if (!token) {
-					console.warn('Authentication failed and no valid token available - user may need to re-login');
-				}
-			}).catch(error => {
+			authSession.refresh().catch(error => {
 				console.error('Failed to refresh token after authentication error:', error);
 			});
 		});
@@ -196,6 +190,22 @@ class WebPlaybackService {
 		return this.deviceId;
 	}
 
+	hasPlayer(): boolean {
+		return !!this.player;
+	}
+
+	async waitForDevice(timeoutMs: number): Promise<string | null> {
+		if (!this.player) {
+			await this.initialize();
+		}
+
+		const deadline = Date.now() + timeoutMs;
+		while (!this.deviceId && Date.now() < deadline) {
+			await new Promise(resolve => setTimeout(resolve, 200));
+		}
+		return this.deviceId;
+	}
+
 	async activateDevice(): Promise<void> {
 		if (!this.deviceId) return;
 		
@@ -0,0 +1,42 @@
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { isServerSessionEnabled, readPendingLogin, writeSession } from '$lib/server/sessionCookie';
+import { CLIENT_ID } from '$lib/server/spotifySession';
+import { fetchSpotifyProfile } from '$lib/spotifyAuth';
+import { TokenRequestRejectedError, requestToken, toAccountTokens } from '$lib/tokenStore';
+
+export const POST = async ({ url, cookies, request }: RequestEvent) => {
+	if (!isServerSessionEnabled()) {
+		return json({ error: 'Server sessions are not enabled' }, { status: 404 });
+	}
+
+	const { code, state } = await request.json();
+	const pending = readPendingLogin(cookies);
+
+	if (!pending || !code || state !== pending.state) {
+		return json(
+			{ error: 'Authorization state mismatch, please try logging in again' },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const data = await requestToken({
+			grant_type: 'authorization_code',
+			code,
+			redirect_uri: `${url.origin}/callback`,
+			client_id: CLIENT_ID,
+			code_verifier: pending.codeVerifier
+		});
+		const profile = await fetchSpotifyProfile(data.access_token);
+		const tokens = toAccountTokens(data, null);
+		writeSession(cookies, profile.userId, tokens);
+
+		console.log(`Started server session for ${profile.userId}`);
+		return json({ profile, accessToken: tokens.accessToken, expiresAt: tokens.expiresAt });
+	} catch (error) {
+		console.error('Server-side code exchange failed:', error);
+		const status = error instanceof TokenRequestRejectedError ? 400 : 502;
+		return json({ error: String(error) }, { status });
+	}
+};
@@ -0,0 +1,24 @@
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { isServerSessionEnabled, writePendingLogin } from '$lib/server/sessionCookie';
+import { CLIENT_ID } from '$lib/server/spotifySession';
+import { buildAuthorizeUrl, generateCodeChallenge, generateRandomString } from '$lib/spotifyAuth';
+
+export const GET = async ({ url, cookies }: RequestEvent) => {
+	if (!isServerSessionEnabled()) {
+		return json({ error: 'Server sessions are not enabled' }, { status: 404 });
+	}
+
+	const codeVerifier = generateRandomString();
+	const state = generateRandomString();
+	writePendingLogin(cookies, { codeVerifier, state });
+
+	const authUrl = buildAuthorizeUrl({
+		clientId: CLIENT_ID,
+		redirectUri: `${url.origin}/callback`,
+		codeChallenge: await generateCodeChallenge(codeVerifier),
+		state
+	});
+
+	return json({ url: authUrl });
+};
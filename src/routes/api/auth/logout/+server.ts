@@ -0,0 +1,17 @@
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { clearSession, isServerSessionEnabled } from '$lib/server/sessionCookie';
+
+export const POST = async ({ url, cookies }: RequestEvent) => {
+	if (!isServerSessionEnabled()) {
+		return json({ error: 'Server sessions are not enabled' }, { status: 404 });
+	}
+
+	const account = url.searchParams.get('account');
+	if (!account) {
+		return json({ error: 'Account is required' }, { status: 400 });
+	}
+
+	clearSession(cookies, account);
+	return new Response(null, { status: 204 });
+};
@@ -0,0 +1,38 @@
+import { json } from '@sveltejs/kit';
+import type { RequestEvent } from '@sveltejs/kit';
+import { isServerSessionEnabled } from '$lib/server/sessionCookie';
+import { getSessionTokens } from '$lib/server/spotifySession';
+
+// GET returns the current access token, POST refreshes the stale token Spotify rejected
+async function handleTokenRequest({ url, cookies, request }: RequestEvent) {
+	if (!isServerSessionEnabled()) {
+		return json({ error: 'Server sessions are not enabled' }, { status: 404 });
+	}
+
+	const account = url.searchParams.get('account');
+	if (!account) {
+		return json({ error: 'Account is required' }, { status: 400 });
+	}
+
+	try {
+		const staleToken =
+			request.method === 'POST'
+				? ((await request.json().catch(() => null))?.staleToken ?? null)
+				: undefined;
+		const tokens = await getSessionTokens(cookies, account, staleToken);
+		if (!tokens) {
+			return json({ error: 'No session for this account' }, { status: 401 });
+		}
+
+		return json(
+			{ accessToken: tokens.accessToken, expiresAt: tokens.expiresAt },
+			{ headers: { 'Cache-Control': 'no-store' } }
+		);
+	} catch (error) {
+		console.error(`Failed to refresh server session for ${account}:`, error);
+		return json({ error: 'Token refresh failed' }, { status: 502 });
+	}
+}
+
+export const GET = handleTokenRequest;
+export const POST = handleTokenRequest;